@@ -105,6 +105,42 @@ export default [
       },
     ],
   },
+  // Custom element
+  {
+    ...baseConfig,
+    input: 'src/element/index.ts',
+    output: [
+      {
+        file: 'dist/element/pay2nature-element.cjs.js',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named',
+      },
+      {
+        file: 'dist/element/pay2nature-element.esm.js',
+        format: 'esm',
+        sourcemap: true,
+      },
+    ],
+  },
+  // Testing utilities
+  {
+    ...baseConfig,
+    input: 'src/testing/index.ts',
+    output: [
+      {
+        file: 'dist/testing/pay2nature-testing.cjs.js',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named',
+      },
+      {
+        file: 'dist/testing/pay2nature-testing.esm.js',
+        format: 'esm',
+        sourcemap: true,
+      },
+    ],
+  },
   // Generate TypeScript definitions
   {
     input: 'src/index.ts',
@@ -125,5 +161,24 @@ export default [
     plugins: [dts()],
     external: [/\.css$/, /\.vue$/],
   },
+  // Generate custom element TypeScript definitions
+  {
+    input: 'src/element/index.ts',
+    output: {
+      file: 'dist/element/pay2nature-element.d.ts',
+      format: 'es',
+    },
+    plugins: [dts()],
+    external: [/\.css$/, /\.vue$/],
+  },
+  // Generate testing utilities TypeScript definitions
+  {
+    input: 'src/testing/index.ts',
+    output: {
+      file: 'dist/testing/pay2nature-testing.d.ts',
+      format: 'es',
+    },
+    plugins: [dts()],
+    external: [/\.css$/, /\.vue$/],
+  },
 ];
-
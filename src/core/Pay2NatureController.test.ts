@@ -0,0 +1,569 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+    Pay2NatureController,
+    Pay2NatureControllerOptions,
+} from "./Pay2NatureController";
+import { ConfigNotFoundError, Pay2NatureError } from "./errors";
+import type { LogEntry } from "./logger";
+import {
+    createMockServer,
+    MockServer,
+    MOCK_PAYMENT_URL,
+    MOCK_WIDGET_CONFIG,
+    waitFor,
+} from "../testing";
+
+let server: MockServer;
+let controller: Pay2NatureController | null = null;
+
+function createController(
+    options: Partial<Pay2NatureControllerOptions> = {}
+): Pay2NatureController {
+    controller = new Pay2NatureController({
+        widgetToken: "test-token",
+        baseUrl: "https://api.pay2nature.test",
+        configCache: false,
+        returnUrls: false,
+        http: { fetch: server.fetch, retryDelay: 0 },
+        ...options,
+    });
+    return controller;
+}
+
+function mockPopup(): Window {
+    const popup = { closed: false, opener: {}, location: { href: "" }, close: vi.fn() };
+    vi.spyOn(window, "open").mockReturnValue(popup as unknown as Window);
+    return popup as unknown as Window;
+}
+
+beforeEach(() => {
+    server = createMockServer();
+    // Expected failures are also logged
+    vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+    controller?.destroy();
+    controller = null;
+});
+
+describe("load()", () => {
+    it("applies the configuration and selects the default amount", async () => {
+        const controller = createController();
+        const ready = vi.fn();
+        controller.on("ready", ready);
+
+        await controller.load();
+
+        const state = controller.getState();
+        expect(state.isLoading).toBe(false);
+        expect(state.currency).toBe("USD");
+        expect(state.amount).toBe(2);
+        expect(state.isValid).toBe(true);
+        expect(state.predefinedAmounts).toHaveLength(5);
+        expect(state.activeProjectName).toBe("Mangrove Restoration");
+        expect(ready).toHaveBeenCalledTimes(1);
+        expect(server.getRequests("config")[0].widgetToken).toBe("test-token");
+    });
+
+    it("reports a missing configuration", async () => {
+        server.setScenario("not-found");
+        const onError = vi.fn();
+        const controller = createController({ onError });
+
+        await controller.load();
+
+        expect(controller.getState().loadError?.code).toBe("CONFIG_NOT_FOUND");
+        expect(onError.mock.calls[0][0].code).toBe("CONFIG_NOT_FOUND");
+    });
+
+    it("reports a configuration without active projects", async () => {
+        server.setScenario("no-active-projects");
+        const onError = vi.fn();
+        const controller = createController({ onError });
+
+        await controller.load();
+
+        expect(controller.getState().hasActiveProjects).toBe(false);
+        expect(onError.mock.calls[0][0].code).toBe("NO_ACTIVE_PROJECTS");
+    });
+
+    it("times out on a slow network", async () => {
+        server.setScenario("slow-network");
+        const onError = vi.fn();
+        const controller = createController({
+            onError,
+            http: { fetch: server.fetch, timeout: 20, retries: 0 },
+        });
+
+        await controller.load();
+
+        expect(controller.getState().loadError?.code).toBe("TIMEOUT");
+        expect(onError).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("amount selection", () => {
+    it("validates custom amounts against the minimum", async () => {
+        const controller = createController();
+        await controller.load();
+        const onAmountChange = vi.fn();
+        controller.on("amountChange", onAmountChange);
+
+        controller.setCustomAmount("0.5");
+        expect(controller.getState().isValid).toBe(false);
+
+        controller.setCustomAmount("7.25");
+        expect(controller.getState()).toMatchObject({
+            amount: 7.25,
+            isCustom: true,
+            isValid: true,
+        });
+
+        controller.selectAmount(4);
+        expect(controller.getState()).toMatchObject({
+            amount: 4,
+            isCustom: false,
+            customAmount: "",
+        });
+        expect(onAmountChange).toHaveBeenCalledTimes(3);
+    });
+
+    it("doesn't start a contribution below the minimum", async () => {
+        const onError = vi.fn();
+        const controller = createController({ onError });
+        await controller.load();
+
+        controller.setCustomAmount("0.5");
+        const result = await controller.contribute();
+
+        expect(result).toBeNull();
+        expect(onError.mock.calls[0][0].code).toBe("VALIDATION");
+        expect(server.getRequests("stripe/create-payment-link")).toHaveLength(0);
+    });
+});
+
+describe("Stripe contributions", () => {
+    it("creates a payment link and opens it in a popup", async () => {
+        const popup = mockPopup();
+        const onContribution = vi.fn();
+        const controller = createController({ onContribution });
+        await controller.load();
+
+        controller.selectAmount(4);
+        const contribution = await controller.contribute();
+
+        expect(contribution).toMatchObject({
+            amount: 4,
+            currency: "USD",
+            paymentMethod: "stripe",
+            paymentUrl: MOCK_PAYMENT_URL,
+            presentation: "popup",
+        });
+        expect(onContribution).toHaveBeenCalledWith(contribution);
+        expect(popup.location.href).toBe(MOCK_PAYMENT_URL);
+        expect(popup.opener).toBeNull();
+        expect(controller.getState().status).toBe("redirecting");
+        expect(server.getRequests("stripe/create-payment-link")[0].body).toMatchObject({
+            amount: 4,
+            frequency: "one-time",
+        });
+    });
+
+    it("offers the payment page again when the popup is blocked", async () => {
+        vi.spyOn(window, "open").mockReturnValue(null);
+        const onError = vi.fn();
+        const onContribution = vi.fn();
+        const controller = createController({ onError, onContribution });
+        await controller.load();
+
+        expect(await controller.contribute()).toBeNull();
+        expect(controller.getState()).toMatchObject({
+            status: "blocked",
+            checkoutUrl: MOCK_PAYMENT_URL,
+        });
+        expect(onError.mock.calls[0][0].code).toBe("POPUP_BLOCKED");
+        expect(onContribution).not.toHaveBeenCalled();
+
+        mockPopup();
+        expect(controller.openPaymentPage()).toBe(true);
+        expect(onContribution).toHaveBeenCalledTimes(1);
+        expect(controller.getState().status).toBe("redirecting");
+    });
+
+    it("shows the payment page in a dialog with the modal presentation", async () => {
+        const controller = createController({ presentation: "modal" });
+        await controller.load();
+
+        const contribution = await controller.contribute();
+
+        expect(contribution?.presentation).toBe("modal");
+        expect(controller.getState()).toMatchObject({
+            status: "checkout",
+            checkoutUrl: MOCK_PAYMENT_URL,
+        });
+
+        controller.closeCheckout();
+        expect(controller.getState()).toMatchObject({ status: "idle", checkoutUrl: null });
+    });
+
+    it("reports payments the server rejects", async () => {
+        const popup = mockPopup();
+        server.setScenario("payment-failure");
+        const errors: Pay2NatureError[] = [];
+        const controller = createController({ onError: (error) => errors.push(error) });
+        await controller.load();
+
+        expect(await controller.contribute()).toBeNull();
+        expect(controller.getState()).toMatchObject({
+            status: "error",
+            isProcessing: false,
+            statusMessage: "The payment could not be created",
+        });
+        expect(errors[0].code).toBe("PAYMENT_REJECTED");
+        expect(errors[0].status).toBe(400);
+        expect(popup.close).toHaveBeenCalled();
+    });
+
+    it("rejects a payment link response without a payment page", async () => {
+        const popup = mockPopup();
+        const onContribution = vi.fn();
+        const errors: Pay2NatureError[] = [];
+        const controller = createController({
+            http: {
+                retryDelay: 0,
+                fetch: (url, init) =>
+                    url.endsWith("/stripe/create-payment-link")
+                        ? Promise.resolve(
+                              new Response(JSON.stringify({ projectName: "Mangroves" }), {
+                                  status: 200,
+                                  headers: { "Content-Type": "application/json" },
+                              })
+                          )
+                        : server.fetch(url, init),
+            },
+            onContribution,
+            onError: (error) => errors.push(error),
+        });
+        await controller.load();
+
+        expect(await controller.contribute()).toBeNull();
+        expect(onContribution).not.toHaveBeenCalled();
+        expect(errors[0].code).toBe("PAYMENT_REJECTED");
+        expect(controller.getState()).toMatchObject({ status: "error", isProcessing: false });
+        expect(popup.close).toHaveBeenCalled();
+    });
+
+    it("fails when a payment page provider returns no payment page", async () => {
+        const popup = mockPopup();
+        const onContribution = vi.fn();
+        const errors: Pay2NatureError[] = [];
+        const controller = createController({
+            onContribution,
+            onError: (error) => errors.push(error),
+            paymentMethods: ["direct"],
+            providers: [
+                {
+                    id: "direct",
+                    label: "Direct",
+                    opensPaymentPage: true,
+                    isEligible: () => true,
+                    initiate: async () => ({}),
+                },
+            ],
+        });
+        await controller.load();
+
+        expect(await controller.contribute()).toBeNull();
+        expect(popup.close).toHaveBeenCalled();
+        expect(onContribution).not.toHaveBeenCalled();
+        expect(errors[0].code).toBe("PAYMENT_REJECTED");
+        expect(controller.getState()).toMatchObject({ status: "error", isProcessing: false });
+    });
+
+    it("confirms a payment return once across widgets", async () => {
+        const returnUrl =
+            "/checkout?p2n_return=success&p2n_widget=test-token&p2n_method=stripe&p2n_amount=5&p2n_session=cs_test_123";
+        window.history.replaceState(null, "", returnUrl);
+        const first = createController({ returnUrls: {} });
+        const second = createController({ returnUrls: {} });
+
+        try {
+            await first.load();
+            await second.load();
+
+            await waitFor(() => first.getState().status === "confirmed");
+            expect(window.location.search).toBe("");
+            expect(server.getRequests("stripe/confirm-payment")).toHaveLength(1);
+            expect(second.getState().status).toBe("idle");
+        } finally {
+            first.destroy();
+            second.destroy();
+            window.history.replaceState(null, "", "/");
+        }
+    });
+});
+
+describe("mobile money contributions", () => {
+    it("sends the payment prompt and follows its status", async () => {
+        server.setConfig({ currency: "GHS", currencySymbol: "GH₵" });
+        const onPaymentSuccess = vi.fn();
+        const controller = createController({
+            onPaymentSuccess,
+            paymentStatus: { transport: "polling", initialInterval: 5 },
+        });
+        await controller.load();
+        expect(controller.getState().paymentMethod).toBe("mobile-money");
+
+        const contribution = await controller.contribute({
+            details: {
+                mobileNumber: "+233 24 123 4567",
+                mobileProvider: "mtn",
+                customerName: "Ama",
+            },
+        });
+
+        expect(contribution).toMatchObject({
+            paymentMethod: "mobile-money",
+            paymentToken: "mm_test_1",
+        });
+        expect(server.getRequests("mobileMoney/initiate-payment")[0].body).toMatchObject({
+            amount: 2,
+            mobileNumber: "0241234567",
+            mobileProvider: "mtn",
+        });
+
+        await waitFor(() => controller.getState().status === "approved");
+        expect(onPaymentSuccess.mock.calls[0][0]).toMatchObject({
+            paymentToken: "mm_test_1",
+            status: "approved",
+        });
+        expect(controller.getState().isProcessing).toBe(false);
+    });
+});
+
+describe("opt-in mode", () => {
+    it("reports the selection instead of taking payments", async () => {
+        const onSelectionChange = vi.fn();
+        const onError = vi.fn();
+        const controller = createController({
+            mode: "opt-in",
+            onSelectionChange,
+            onError,
+        });
+        await controller.load();
+
+        expect(controller.getSelection().enabled).toBe(false);
+        controller.setEnabled(true);
+        controller.selectAmount(5);
+
+        expect(onSelectionChange).toHaveBeenLastCalledWith(
+            expect.objectContaining({ enabled: true, amount: 5, isValid: true })
+        );
+        expect(await controller.contribute()).toBeNull();
+        expect(onError.mock.calls[0][0].code).toBe("VALIDATION");
+    });
+});
+
+describe("analytics", () => {
+    it("reports the contribution funnel", async () => {
+        mockPopup();
+        const track = vi.fn();
+        const controller = createController({ analytics: { track } });
+        await controller.load();
+
+        controller.trackImpression();
+        controller.trackImpression();
+        controller.selectAmount(5);
+        await controller.contribute();
+
+        expect(track.mock.calls.map(([event]) => event)).toEqual([
+            "impression",
+            "amount_selected",
+            "contribute_clicked",
+            "payment_opened",
+        ]);
+        expect(track).toHaveBeenLastCalledWith("payment_opened", {
+            widgetToken: "test-token",
+            mode: "payment",
+            amount: 5,
+            currency: "USD",
+            paymentMethod: "stripe",
+            frequency: "one-time",
+            presentation: "popup",
+        });
+    });
+});
+
+describe("logging", () => {
+    it("writes entries at or above the log level to the logger", async () => {
+        const log = vi.fn();
+        server.setScenario("not-found");
+        const controller = createController({ logger: { log }, logLevel: "info" });
+
+        await controller.load();
+
+        const entries: LogEntry[] = log.mock.calls.map(([entry]) => entry);
+        expect(entries.map((entry) => entry.level)).toEqual(["error", "error"]);
+        expect(entries[0]).toMatchObject({
+            message: "Failed to fetch widget configuration",
+            widgetToken: "test-token",
+            instanceId: controller.getDiagnostics().instanceId,
+        });
+        expect(entries[1].error).toBeInstanceOf(ConfigNotFoundError);
+        expect(console.error).not.toHaveBeenCalled();
+    });
+
+    it("logs API calls and emits entries in debug mode", async () => {
+        const log = vi.fn();
+        const onLog = vi.fn();
+        const controller = createController({ logger: { log }, debug: true });
+        controller.on("log", onLog);
+
+        await controller.load();
+
+        expect(onLog).toHaveBeenCalledTimes(log.mock.calls.length);
+        expect(log.mock.calls.map(([entry]) => entry.message)).toEqual([
+            expect.stringMatching(
+                /^GET https:\/\/api\.pay2nature\.test\/api\/widget\/test-token\/config 200 \(\d+ms\)$/
+            ),
+            "Configuration loaded",
+        ]);
+        expect(log.mock.calls[0][0]).toMatchObject({
+            level: "debug",
+            data: { method: "GET", status: 200 },
+        });
+    });
+
+    it("writes nothing when silent", async () => {
+        const log = vi.fn();
+        server.setScenario("not-found");
+        const controller = createController({ logger: { log }, logLevel: "silent" });
+
+        await controller.load();
+
+        expect(log).not.toHaveBeenCalled();
+    });
+
+    it("gives each controller its own instance id", () => {
+        const first = createController().getDiagnostics().instanceId;
+        const second = createController().getDiagnostics().instanceId;
+
+        expect(first).toMatch(/^p2n-\d+$/);
+        expect(second).not.toBe(first);
+    });
+});
+
+describe("getDiagnostics()", () => {
+    it("records the configuration source, API calls and last error", async () => {
+        mockPopup();
+        server.setScenario("payment-failure");
+        const controller = createController({ onError: () => {} });
+        expect(controller.getDiagnostics().configSource).toBeNull();
+
+        await controller.load();
+        await controller.contribute();
+
+        const diagnostics = controller.getDiagnostics();
+        expect(diagnostics.configSource).toBe("network");
+        expect(diagnostics.requests.map(({ method, status }) => [method, status])).toEqual([
+            ["GET", 200],
+            ["POST", 400],
+        ]);
+        expect(diagnostics.lastError?.code).toBe("PAYMENT_REJECTED");
+    });
+
+    it("reports an initial configuration", () => {
+        const controller = createController({ initialConfig: MOCK_WIDGET_CONFIG });
+
+        expect(controller.getDiagnostics().configSource).toBe("initial");
+    });
+});
+
+describe("environments", () => {
+    it("sends sandbox requests to the test endpoints", async () => {
+        const controller = createController({ environment: "sandbox" });
+        await controller.load();
+
+        expect(controller.getState().environment).toBe("sandbox");
+        expect(server.getRequests("config")[0].url).toBe(
+            "https://api.pay2nature.test/sandbox/api/widget/test-token/config"
+        );
+    });
+
+    it("serves the fixture the widget token names offline", async () => {
+        const controller = createController({
+            widgetToken: "mobile-money",
+            environment: "offline",
+            offline: { latency: 0 },
+        });
+        await controller.load();
+
+        expect(server.requests).toHaveLength(0);
+        expect(controller.getState()).toMatchObject({
+            currency: "GHS",
+            paymentMethod: "mobile-money",
+            hasActiveProjects: true,
+        });
+    });
+
+    it("confirms simulated Stripe payments without opening a window", async () => {
+        const open = vi.spyOn(window, "open");
+        const onContributionConfirmed = vi.fn();
+        const controller = createController({
+            environment: "offline",
+            offline: { latency: 0 },
+            onContributionConfirmed,
+        });
+        await controller.load();
+        controller.selectAmount(5.5);
+
+        const contribution = await controller.contribute();
+
+        expect(contribution).toMatchObject({ amount: 5.5, presentation: "popup" });
+        await waitFor(() => controller.getState().status === "confirmed");
+        expect(open).not.toHaveBeenCalled();
+        expect(onContributionConfirmed.mock.calls[0][0]).toMatchObject({
+            amount: 5.5,
+            paymentMethod: "stripe",
+            sessionId: "cs_test_123",
+            status: "approved",
+        });
+    });
+
+    it("simulates the mobile money outcome after a pending status", async () => {
+        const statuses: string[] = [];
+        const controller = createController({
+            widgetToken: "mobile-money",
+            environment: "offline",
+            offline: { latency: 0, paymentOutcome: "failed" },
+            paymentStatus: { initialInterval: 5 },
+        });
+        controller.on("paymentStatus", (data) => statuses.push(data.status));
+        await controller.load();
+
+        await controller.contribute({
+            details: {
+                mobileNumber: "+233 24 123 4567",
+                mobileProvider: "mtn",
+                customerName: "Ama",
+            },
+        });
+
+        await waitFor(() => controller.getState().status === "failed");
+        expect(statuses).toEqual(["pending", "failed"]);
+    });
+
+    it("rejects simulated payments with the rejected outcome", async () => {
+        const onError = vi.fn();
+        const controller = createController({
+            environment: "offline",
+            offline: { latency: 0, paymentOutcome: "rejected" },
+            onError,
+        });
+        await controller.load();
+
+        expect(await controller.contribute()).toBeNull();
+        expect(onError.mock.calls[0][0].code).toBe("PAYMENT_REJECTED");
+    });
+});
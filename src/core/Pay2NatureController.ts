@@ -0,0 +1,1744 @@
+/**
+ * Pay2Nature Headless Controller
+ * Loads the widget configuration, holds the amount selection and payment
+ * state, and runs the contribution flows without rendering anything.
+ * `Pay2NatureWidget` is one renderer built on top of it; design systems can
+ * subscribe to the same state and render their own UI.
+ */
+
+import type {
+    PaymentStatus,
+    PaymentStatusOptions,
+    PaymentStatusUpdate,
+} from "./paymentStatus";
+import {
+    AmountOptions,
+    AmountStrategy,
+    generatePresetAmounts,
+    getAmountStrategy,
+    resolveDefaultAmount,
+} from "./amounts";
+import {
+    AnalyticsAbandonReason,
+    AnalyticsAdapter,
+    AnalyticsEventName,
+    AnalyticsProps,
+    trackAnalyticsEvent,
+} from "./analytics";
+import {
+    ConfigCacheOptions,
+    fetchAndCacheWidgetConfig,
+    fetchWidgetConfig,
+    isCachedConfigStale,
+    readCachedConfig,
+    writeCachedConfig,
+} from "./config";
+import { getSandboxBaseUrl, WidgetEnvironment } from "./environment";
+import {
+    NoActiveProjectsError,
+    Pay2NatureError,
+    PaymentRejectedError,
+    PopupBlockedError,
+    ProviderUnavailableError,
+    toPaymentError,
+    ValidationError,
+} from "./errors";
+import { EventEmitter, Pay2NatureEventMap } from "./events";
+import { FetchFunction, HttpClient, HttpClientOptions, isHttpUrl } from "./http";
+import { BUNDLED_CATALOGS, WidgetMessages } from "./i18n";
+import {
+    ApiRequestLog,
+    createInstanceId,
+    Logger,
+    LogLevel,
+    Pay2NatureLogger,
+} from "./logger";
+import { createOfflineFetch, getOfflineSessionId, OfflineOptions } from "./offline";
+import {
+    buildReturnUrls,
+    clearPaymentReturn,
+    PaymentReturn,
+    readPaymentReturn,
+    ReturnUrlOptions,
+} from "./paymentReturn";
+import { PaymentProviderRegistry, paymentProviders } from "./providers/registry";
+import type {
+    PaymentProvider,
+    PaymentProviderContext,
+    PaymentStatusSubscription,
+} from "./providers/types";
+import type {
+    ConfirmedContribution,
+    ContributionData,
+    ContributionFrequency,
+    ContributionSelection,
+    MobileMoneyDetails,
+    PaymentMethod,
+    PaymentPresentation,
+    PaymentStatusData,
+    WidgetConfig,
+    WidgetProject,
+} from "./types";
+
+export interface Pay2NatureControllerOptions {
+    widgetToken: string;
+    baseUrl: string;
+    // "sandbox" uses the API's test endpoints; "offline" serves built-in
+    // fixtures and simulates payments without any requests (default: "live")
+    environment?: WidgetEnvironment;
+    // Base URL of the test endpoints (default: `${baseUrl}/sandbox`)
+    sandboxBaseUrl?: string;
+    // Fixture and simulated payment outcome in the "offline" environment
+    offline?: OfflineOptions;
+    // "opt-in" collects a selection for the host's checkout instead of
+    // taking payments (default: "payment")
+    mode?: WidgetMode;
+    // Whether the contribution starts switched on (default: true, false in "opt-in" mode)
+    enabled?: boolean;
+    paymentStatus?: PaymentStatusOptions;
+    paymentMethods?: PaymentMethod[];
+    paymentMethod?: PaymentMethod;
+    // Ids of the configured projects to offer, in order (default: all)
+    projects?: string[];
+    // Project selected initially (default: the first one offered)
+    project?: string;
+    // Frequency selected initially, when the configuration offers it (default: "one-time")
+    frequency?: ContributionFrequency;
+    providers?: PaymentProvider[];
+    // How hosted payment pages such as Stripe's are shown (default: "popup")
+    presentation?: PaymentPresentation;
+    // Pages hosted payment pages return the donor to, or false to neither
+    // send nor detect returns (default: the current page)
+    returnUrls?: ReturnUrlOptions | false;
+    // How preset amounts are generated, overriding the server configuration
+    amounts?: AmountOptions;
+    // Configuration from fetchWidgetConfig(), skipping the client-side fetch
+    initialConfig?: WidgetConfig;
+    // Shared configuration cache settings, or false to always fetch
+    configCache?: ConfigCacheOptions | false;
+    // Request timeout and retry settings, and a custom fetch implementation
+    http?: HttpClientOptions;
+    // Where funnel events are sent; nothing is tracked without it
+    analytics?: AnalyticsAdapter | AnalyticsAdapter[];
+    // Least severe log entries written (default: "warn", "debug" with `debug`)
+    logLevel?: LogLevel;
+    // Receives log entries instead of the console
+    logger?: Pay2NatureLogger;
+    // Logs at debug level; the widget also shows a diagnostics panel
+    debug?: boolean;
+    onContribution?: (data: ContributionData) => void;
+    onContributionConfirmed?: (data: ConfirmedContribution) => void;
+    onPaymentPending?: (data: PaymentStatusData) => void;
+    onPaymentSuccess?: (data: PaymentStatusData) => void;
+    onPaymentFailed?: (data: PaymentStatusData) => void;
+    onToggle?: (isEnabled: boolean) => void;
+    onSelectionChange?: (selection: ContributionSelection) => void;
+    onError?: (error: Pay2NatureError) => void;
+}
+
+export type WidgetMode = "payment" | "opt-in";
+
+export type ContributionStatus =
+    | "idle"
+    | "collecting"
+    | "processing"
+    | "redirecting"
+    // The payment page is shown in a dialog over the page ("modal" presentation)
+    | "checkout"
+    // The browser blocked the payment window; openPaymentPage() retries
+    | "blocked"
+    // The donor returned from the payment page and the payment is being confirmed
+    | "confirming"
+    // The returned payment was confirmed; `confirmation` holds the receipt
+    | "confirmed"
+    | "error"
+    | PaymentStatus;
+
+export interface Pay2NatureState {
+    mode: WidgetMode;
+    // Anything but "live" takes test payments only; renderers badge it
+    environment: WidgetEnvironment;
+    isLoading: boolean;
+    loadError: Pay2NatureError | null;
+    config: WidgetConfig | null;
+    currency: string;
+    currencySymbol: string;
+    minAmount: number;
+    maxAmount: number;
+    defaultAmount: number;
+    predefinedAmounts: number[];
+    amountStrategy: AmountStrategy;
+    // Host's order total, for the "round-up" and "percentage" strategies
+    orderTotal: number | null;
+    // Name of the selected project, else of the configured active project
+    activeProjectName: string | null;
+    hasActiveProjects: boolean;
+    projects: WidgetProject[];
+    projectId: string | null;
+    // Frequencies offered with the selected payment method
+    frequencies: ContributionFrequency[];
+    frequency: ContributionFrequency;
+    paymentMethod: PaymentMethod | null;
+    paymentMethods: PaymentMethodOption[];
+    selectedAmount: number;
+    customAmount: string;
+    isCustom: boolean;
+    amount: number;
+    isValid: boolean;
+    isEnabled: boolean;
+    isProcessing: boolean;
+    status: ContributionStatus;
+    statusMessage: string | null;
+    lastContribution: ContributionData | null;
+    // Payment page waiting to be opened ("blocked") or shown in the
+    // checkout dialog ("checkout")
+    checkoutUrl: string | null;
+    // Payment confirmed after the donor returned from the payment page
+    confirmation: ConfirmedContribution | null;
+}
+
+// Where the current configuration came from
+export type ConfigSource = "initial" | "cache" | "network";
+
+export interface Pay2NatureDiagnostics {
+    // Tells widgets on the same page apart in log entries
+    instanceId: string;
+    configSource: ConfigSource | null;
+    // Most recent API calls, oldest first
+    requests: ApiRequestLog[];
+    lastError: Pay2NatureError | null;
+}
+
+export interface PaymentMethodOption {
+    id: PaymentMethod;
+    label: string;
+}
+
+export interface PaymentStepOptions {
+    // Element the provider's UI step renders into
+    container: HTMLElement;
+    messages?: WidgetMessages;
+    formatAmount?: (amount: number) => string;
+    // Closes the step, e.g. when the renderer goes away
+    signal?: AbortSignal;
+}
+
+export interface ContributeOptions {
+    // Details for the selected provider, skipping its UI step
+    details?: unknown;
+    mobileMoney?: MobileMoneyDetails;
+    step?: PaymentStepOptions;
+}
+
+export type StateListener = (
+    state: Pay2NatureState,
+    previousState: Pay2NatureState
+) => void;
+
+const INITIAL_STATE: Pay2NatureState = {
+    mode: "payment",
+    environment: "live",
+    isLoading: true,
+    loadError: null,
+    config: null,
+    // Default fallback values
+    currency: "USD",
+    currencySymbol: "$",
+    minAmount: 0.5,
+    maxAmount: 5.0,
+    defaultAmount: 1.0,
+    predefinedAmounts: [],
+    amountStrategy: "linear",
+    orderTotal: null,
+    activeProjectName: null,
+    hasActiveProjects: false,
+    projects: [],
+    projectId: null,
+    frequencies: ["one-time"],
+    frequency: "one-time",
+    paymentMethod: null,
+    paymentMethods: [],
+    selectedAmount: 0,
+    customAmount: "",
+    isCustom: false,
+    amount: 0,
+    isValid: false,
+    isEnabled: true,
+    isProcessing: false,
+    status: "idle",
+    statusMessage: null,
+    lastContribution: null,
+    checkoutUrl: null,
+    confirmation: null,
+};
+
+// Times a returned payment still settling is confirmed again
+const CONFIRM_ATTEMPTS = 5;
+const CONFIRM_RETRY_DELAY = 2000;
+
+// A custom amount is tracked once the donor stops typing
+const CUSTOM_AMOUNT_TRACK_DELAY = 1000;
+
+// API calls kept for diagnostics
+const MAX_LOGGED_REQUESTS = 20;
+
+function isSameSelection(a: Pay2NatureState, b: Pay2NatureState): boolean {
+    return (
+        a.isEnabled === b.isEnabled &&
+        a.amount === b.amount &&
+        a.currency === b.currency &&
+        a.isCustom === b.isCustom &&
+        a.isValid === b.isValid &&
+        a.orderTotal === b.orderTotal &&
+        a.projectId === b.projectId
+    );
+}
+
+// Analytics properties of a contribution that has been started
+function getContributionProps(
+    contribution: ContributionData
+): Omit<AnalyticsProps, "widgetToken" | "mode"> {
+    return {
+        amount: contribution.amount,
+        currency: contribution.currency,
+        paymentMethod: contribution.paymentMethod,
+        frequency: contribution.frequency,
+        projectId: contribution.projectId,
+        presentation: contribution.presentation,
+    };
+}
+
+function openWindow(url: string): Window | null {
+    return typeof window === "undefined" ? null : window.open(url, "_blank");
+}
+
+// Sends a window opened ahead of time to the payment page
+function navigateWindow(popup: Window | null, url: string): Window | null {
+    if (!popup || popup.closed) return null;
+    try {
+        // The payment page must not be able to script the widget's page
+        popup.opener = null;
+        popup.location.href = url;
+        return popup;
+    } catch {
+        popup.close();
+        return null;
+    }
+}
+
+export class Pay2NatureController {
+    private baseUrl: string;
+    private environment: WidgetEnvironment;
+    private widgetToken: string;
+    private state: Pay2NatureState = { ...INITIAL_STATE };
+    private listeners: Set<StateListener> = new Set();
+    private paymentStatusOptions: PaymentStatusOptions | undefined;
+    private statusSubscription: PaymentStatusSubscription | null = null;
+    private allowedPaymentMethods: PaymentMethod[] | undefined;
+    private preferredPaymentMethod: PaymentMethod | undefined;
+    private allowedProjects: string[] | undefined;
+    private preferredProject: string | undefined;
+    private preferredFrequency: ContributionFrequency | undefined;
+    private extraProviders: PaymentProvider[];
+    private amountOptions: AmountOptions;
+    private presentation: PaymentPresentation;
+    private returnUrlOptions: ReturnUrlOptions | null;
+    private providers: PaymentProvider[] = [];
+    private previousDetails: Record<string, unknown> = {};
+    private destroyed: boolean = false;
+    private hasInitialConfig: boolean = false;
+    private configCacheOptions: ConfigCacheOptions | null;
+    private abortController: AbortController = new AbortController();
+    // Cancelled on destroy()
+    private http: HttpClient;
+    // For requests shared with other widgets through the config cache
+    private sharedHttp: HttpClient;
+    private events: EventEmitter<Pay2NatureEventMap> = new EventEmitter(
+        (event, error) => this.logger.error(`"${String(event)}" listener threw`, error)
+    );
+    private instanceId: string;
+    private logger: Logger;
+    private configSource: ConfigSource | null = null;
+    private requestLog: ApiRequestLog[] = [];
+    private lastError: Pay2NatureError | null = null;
+    private analytics: AnalyticsAdapter[];
+    private hasTrackedImpression: boolean = false;
+    private customAmountTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(options: Pay2NatureControllerOptions) {
+        if (!options.baseUrl || !options.widgetToken) {
+            throw new ValidationError("Pay2Nature: widgetToken and baseUrl are required");
+        }
+
+        this.environment = options.environment || "live";
+        this.baseUrl =
+            this.environment === "sandbox"
+                ? options.sandboxBaseUrl || getSandboxBaseUrl(options.baseUrl)
+                : options.baseUrl;
+        this.widgetToken = options.widgetToken;
+        this.instanceId = createInstanceId();
+        this.logger = new Logger({
+            instanceId: this.instanceId,
+            widgetToken: this.widgetToken,
+            level: options.logLevel || (options.debug ? "debug" : undefined),
+            logger: options.logger,
+            onEntry: (entry) => this.events.emit("log", entry),
+        });
+        const mode = options.mode || "payment";
+        this.state = {
+            ...this.state,
+            mode,
+            environment: this.environment,
+            isEnabled: options.enabled ?? mode !== "opt-in",
+        };
+        const isOffline = this.environment === "offline";
+        // Status streams can't be simulated in-process
+        this.paymentStatusOptions = isOffline
+            ? { ...options.paymentStatus, transport: "polling" }
+            : options.paymentStatus;
+        this.allowedPaymentMethods = options.paymentMethods;
+        this.preferredPaymentMethod = options.paymentMethod;
+        this.allowedProjects = options.projects;
+        this.preferredProject = options.project;
+        this.preferredFrequency = options.frequency;
+        this.extraProviders = options.providers || [];
+        this.amountOptions = options.amounts || {};
+        this.presentation = options.presentation || "popup";
+        this.returnUrlOptions =
+            options.returnUrls === false ? null : options.returnUrls || {};
+        // Fixtures must not end up in the cache live widgets read
+        this.configCacheOptions =
+            options.configCache === false || isOffline
+                ? null
+                : options.configCache || {};
+        this.sharedHttp = new HttpClient({
+            ...options.http,
+            fetch: this.recordRequests(
+                isOffline
+                    ? createOfflineFetch(this.widgetToken, options.offline)
+                    : options.http?.fetch
+            ),
+        });
+        this.http = this.sharedHttp.withSignal(this.abortController.signal);
+        this.analytics = options.analytics
+            ? ([] as AnalyticsAdapter[]).concat(options.analytics)
+            : [];
+
+        // Configuration fetched ahead of time (e.g. during server rendering)
+        if (options.initialConfig) {
+            this.applyConfig(options.initialConfig, true);
+            this.hasInitialConfig = true;
+            this.configSource = "initial";
+            if (this.configCacheOptions) {
+                writeCachedConfig(
+                    this.widgetToken,
+                    this.baseUrl,
+                    options.initialConfig,
+                    this.configCacheOptions
+                );
+            }
+        }
+
+        if (this.environment !== "live") {
+            this.logger.info(`Using the ${this.environment} environment`, {
+                baseUrl: this.baseUrl,
+            });
+        }
+
+        // Constructor callbacks are registered as regular listeners
+        if (options.onContribution) {
+            this.on("contribution", options.onContribution);
+        }
+        if (options.onContributionConfirmed) {
+            this.on("contributionConfirmed", options.onContributionConfirmed);
+        }
+        if (options.onToggle) {
+            this.on("toggle", options.onToggle);
+        }
+        if (options.onSelectionChange) {
+            this.on("selectionChange", options.onSelectionChange);
+        }
+        if (options.onError) {
+            this.on("error", options.onError);
+        }
+        // Registered regardless, as adapters can be set later
+        this.trackEvents();
+        const { onPaymentPending, onPaymentSuccess, onPaymentFailed } = options;
+        if (onPaymentPending || onPaymentSuccess || onPaymentFailed) {
+            this.on("paymentStatus", (data) => {
+                if (data.status === "pending") {
+                    onPaymentPending?.(data);
+                } else if (data.status === "approved") {
+                    onPaymentSuccess?.(data);
+                } else {
+                    onPaymentFailed?.(data);
+                }
+            });
+        }
+    }
+
+    // Events
+
+    public on<K extends keyof Pay2NatureEventMap>(
+        event: K,
+        handler: (payload: Pay2NatureEventMap[K]) => void
+    ): () => void {
+        return this.events.on(event, handler);
+    }
+
+    public off<K extends keyof Pay2NatureEventMap>(
+        event: K,
+        handler: (payload: Pay2NatureEventMap[K]) => void
+    ): void {
+        this.events.off(event, handler);
+    }
+
+    public once<K extends keyof Pay2NatureEventMap>(
+        event: K,
+        handler: (payload: Pay2NatureEventMap[K]) => void
+    ): () => void {
+        return this.events.once(event, handler);
+    }
+
+    /**
+     * Emits an error through the `error` event. Used by renderers for
+     * failures they detect themselves, such as client-side validation.
+     * Falls back to the console when nothing is listening.
+     */
+    public reportError(error: Pay2NatureError): void {
+        this.lastError = error;
+        this.track("error", { errorCode: error.code });
+        if (this.events.listenerCount("error") === 0) {
+            this.logger.error(error.message, error);
+            return;
+        }
+        this.logger.debug(`Reported ${error.code}: ${error.message}`);
+        this.events.emit("error", error);
+    }
+
+    // State
+
+    public getState(): Pay2NatureState {
+        return this.state;
+    }
+
+    /**
+     * Registers a listener called after every state change.
+     * Returns a function that removes the listener.
+     */
+    public subscribe(listener: StateListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private setState(partial: Partial<Pay2NatureState>): void {
+        if (this.destroyed) return;
+
+        const previousState = this.state;
+        const next = { ...previousState, ...partial };
+        next.amount = next.isCustom
+            ? parseFloat(next.customAmount) || 0
+            : next.selectedAmount;
+        next.isValid = next.amount >= next.minAmount;
+        this.state = next;
+
+        this.listeners.forEach((listener) => listener(next, previousState));
+
+        if (previousState.config && !isSameSelection(previousState, next)) {
+            this.events.emit("selectionChange", this.getSelection());
+        }
+    }
+
+    /**
+     * The contribution currently chosen: whether it is switched on, and the
+     * amount. In opt-in mode the host adds it to its own checkout.
+     */
+    public getSelection(): ContributionSelection {
+        return {
+            enabled: this.state.isEnabled,
+            amount: this.state.amount,
+            currency: this.state.currency,
+            isCustom: this.state.isCustom,
+            isValid: this.state.isValid,
+            orderTotal: this.state.orderTotal,
+            projectId: this.state.projectId,
+        };
+    }
+
+    // Configuration
+
+    /**
+     * Loads the widget configuration. The first call after constructing
+     * with `initialConfig` uses that configuration instead of fetching.
+     * A cached configuration is used straight away and, once older than
+     * the cache TTL, revalidated in the background. A payment the donor
+     * just returned from is then confirmed.
+     */
+    public async load(): Promise<void> {
+        let isStale = false;
+
+        if (this.hasInitialConfig) {
+            this.hasInitialConfig = false;
+            // Still emit asynchronously, so listeners added right after
+            // construction receive configLoaded and ready
+            await Promise.resolve();
+        } else {
+            const cached = this.configCacheOptions
+                ? readCachedConfig(
+                      this.widgetToken,
+                      this.baseUrl,
+                      this.configCacheOptions
+                  )
+                : null;
+
+            if (cached) {
+                isStale = isCachedConfigStale(cached, this.configCacheOptions!);
+                // Emit asynchronously here too, as with initialConfig
+                await Promise.resolve();
+                this.configSource = "cache";
+                this.applyConfig(cached.config, true);
+            } else {
+                this.setState({ isLoading: true, loadError: null });
+
+                try {
+                    const config = await this.fetchConfig();
+                    if (this.destroyed) return;
+                    this.configSource = "network";
+                    this.applyConfig(config, true);
+                } catch (error) {
+                    if (this.destroyed) return;
+                    this.logger.error("Failed to fetch widget configuration", error);
+                    const loadError = Pay2NatureError.from(error);
+                    this.setState({ isLoading: false, loadError });
+                    this.reportError(loadError);
+                    return;
+                }
+            }
+        }
+
+        const config = this.state.config as WidgetConfig;
+        this.logger.info("Configuration loaded", { source: this.configSource, isStale });
+        this.events.emit("configLoaded", config);
+        if (this.state.hasActiveProjects) {
+            this.events.emit("ready", this.state);
+        } else {
+            this.reportError(
+                new NoActiveProjectsError(
+                    `Pay2Nature: widget ${this.widgetToken} has no active projects`,
+                    { data: config }
+                )
+            );
+        }
+
+        // Cleared from the address bar before confirming, so only the first
+        // widget loaded for this token confirms the return
+        const paymentReturn = this.returnUrlOptions
+            ? readPaymentReturn(this.widgetToken)
+            : null;
+        if (paymentReturn) {
+            clearPaymentReturn();
+            this.confirmPaymentReturn(paymentReturn);
+        }
+
+        if (isStale) {
+            this.refreshConfig().catch((error) =>
+                this.logger.warn("Failed to revalidate configuration", error)
+            );
+        }
+    }
+
+    /**
+     * Fetches the configuration again, bypassing the cache, and applies it
+     * if it changed. Rejects if the request fails.
+     */
+    public async refreshConfig(): Promise<void> {
+        const config = await this.fetchConfig();
+
+        if (this.destroyed) return;
+        this.configSource = "network";
+
+        if (
+            this.state.config &&
+            JSON.stringify(config) === JSON.stringify(this.state.config)
+        ) {
+            return;
+        }
+
+        const hadConfig = !!this.state.config;
+        this.applyConfig(config, !hadConfig || this.isDefaultSelection());
+        this.events.emit("configLoaded", config);
+        if (!hadConfig && this.state.hasActiveProjects) {
+            this.events.emit("ready", this.state);
+        }
+    }
+
+    private fetchConfig(): Promise<WidgetConfig> {
+        return this.configCacheOptions
+            ? fetchAndCacheWidgetConfig(
+                  this.widgetToken,
+                  this.baseUrl,
+                  this.configCacheOptions,
+                  this.sharedHttp
+              )
+            : fetchWidgetConfig(
+                  this.widgetToken,
+                  this.baseUrl,
+                  undefined,
+                  this.http
+              );
+    }
+
+    public updateConfig(config: Partial<WidgetConfig>): void {
+        if (this.state.config) {
+            this.applyConfig({ ...this.state.config, ...config }, false);
+        }
+    }
+
+    /**
+     * Replaces the analytics adapters; an empty list stops tracking
+     */
+    public setAnalytics(analytics: AnalyticsAdapter | AnalyticsAdapter[] | undefined): void {
+        this.analytics = analytics ? ([] as AnalyticsAdapter[]).concat(analytics) : [];
+    }
+
+    /**
+     * Routes log entries to another logger, or back to the console
+     */
+    public setLogger(logger: Pay2NatureLogger | undefined): void {
+        this.logger.setLogger(logger);
+    }
+
+    /**
+     * Changes how preset amounts are generated, e.g. with a new
+     * `orderTotal` when the cart changes. Merged into the current options.
+     */
+    public setAmountOptions(options: AmountOptions): void {
+        this.amountOptions = { ...this.amountOptions, ...options };
+        if (this.state.config) {
+            this.applyConfig(this.state.config, this.isDefaultSelection());
+        }
+    }
+
+    /**
+     * Sets the host's order total, e.g. as the cart changes, for the
+     * "round-up" and "percentage" amount strategies. `null` clears it.
+     */
+    public setOrderTotal(orderTotal: number | null): void {
+        if (orderTotal !== null && !(isFinite(orderTotal) && orderTotal >= 0)) {
+            this.reportError(
+                new ValidationError(
+                    `Pay2Nature: invalid order total ${orderTotal}`
+                )
+            );
+            return;
+        }
+        this.setAmountOptions({ orderTotal: orderTotal ?? undefined });
+    }
+
+    // Follow a changed default amount unless the donor picked one
+    private isDefaultSelection(): boolean {
+        return (
+            !this.state.isCustom &&
+            this.state.selectedAmount === this.state.defaultAmount
+        );
+    }
+
+    private applyConfig(config: WidgetConfig, resetSelection: boolean): void {
+        const minAmount = parseFloat(String(config.minAmount || "0.50"));
+        const maxAmount = parseFloat(String(config.maxAmount || "5.00"));
+        const currency = config.currency || "USD";
+
+        const limits = { minAmount, maxAmount, currency };
+        const amountOptions = { ...config.amounts, ...this.amountOptions };
+        const predefinedAmounts = generatePresetAmounts(amountOptions, limits);
+        const defaultAmount = resolveDefaultAmount(
+            amountOptions,
+            predefinedAmounts,
+            parseFloat(String(config.defaultAmount || "1.00")),
+            limits
+        );
+
+        // When the presets change, a selected preset moves to the preset at
+        // the same position, e.g. after the order total changed
+        const previousIndex = this.state.isCustom
+            ? -1
+            : this.state.predefinedAmounts.indexOf(this.state.selectedAmount);
+        const keepsSelection =
+            previousIndex === -1 ||
+            predefinedAmounts.join() === this.state.predefinedAmounts.join();
+
+        const previousProviders = this.providers;
+        this.providers = this.resolveProviders({ ...config, currency });
+        const paymentMethods = this.providers.map((provider) => ({
+            id: provider.id,
+            label: provider.label,
+        }));
+        const isAvailable = (id: PaymentMethod | null | undefined) =>
+            !!id && this.providers.some((provider) => provider.id === id);
+        const paymentMethod = isAvailable(this.state.paymentMethod)
+            ? this.state.paymentMethod
+            : isAvailable(this.preferredPaymentMethod)
+              ? (this.preferredPaymentMethod as PaymentMethod)
+              : paymentMethods[0]?.id || null;
+
+        const projects = this.resolveProjects(config);
+        const project =
+            projects.find((candidate) => candidate.id === this.state.projectId) ||
+            projects.find((candidate) => candidate.id === this.preferredProject) ||
+            projects[0] ||
+            null;
+
+        this.setState({
+            isLoading: false,
+            loadError: null,
+            config,
+            currency,
+            currencySymbol: config.currencySymbol || "$",
+            minAmount,
+            maxAmount,
+            defaultAmount,
+            predefinedAmounts,
+            amountStrategy: getAmountStrategy(amountOptions),
+            orderTotal: amountOptions.orderTotal ?? null,
+            activeProjectName: project?.name || config.activeProjectName || null,
+            // Restricting the projects to none that exist leaves nothing to fund
+            hasActiveProjects:
+                Boolean(config.hasActiveProjects) &&
+                (!config.projects || projects.length > 0),
+            projects,
+            projectId: project?.id || null,
+            ...this.resolveFrequency(config, paymentMethod),
+            paymentMethod,
+            paymentMethods,
+            ...(resetSelection
+                ? { selectedAmount: defaultAmount, customAmount: "", isCustom: false }
+                : keepsSelection
+                  ? {}
+                  : {
+                        selectedAmount:
+                            predefinedAmounts[
+                                Math.min(previousIndex, predefinedAmounts.length - 1)
+                            ] ?? defaultAmount,
+                    }),
+        });
+
+        this.providers
+            .filter((provider) => !previousProviders.includes(provider))
+            .forEach((provider) => provider.prepare?.(this.getProviderContext()));
+    }
+
+    // Amount selection
+
+    public selectAmount(amount: number): void {
+        this.setState({
+            selectedAmount: amount,
+            isCustom: false,
+            customAmount: "",
+        });
+        this.emitAmountChange();
+        this.trackAmount(false);
+    }
+
+    public setCustomAmount(value: string): void {
+        const numValue = parseFloat(value);
+
+        if (!isNaN(numValue) && numValue >= this.state.minAmount) {
+            this.setState({
+                customAmount: value,
+                selectedAmount: numValue,
+                isCustom: true,
+            });
+        } else {
+            this.setState({ customAmount: value, isCustom: value !== "" });
+        }
+        this.emitAmountChange();
+        this.trackAmount(true);
+    }
+
+    public setEnabled(isEnabled: boolean): void {
+        if (isEnabled === this.state.isEnabled) return;
+        this.setState({ isEnabled });
+        this.events.emit("toggle", isEnabled);
+    }
+
+    private emitAmountChange(): void {
+        this.events.emit("amountChange", {
+            amount: this.state.amount,
+            currency: this.state.currency,
+            isCustom: this.state.isCustom,
+            isValid: this.state.isValid,
+        });
+    }
+
+    /**
+     * Tracks `amount_selected`: straight away for presets, and for custom
+     * amounts once the donor has stopped typing a valid one
+     */
+    private trackAmount(isCustom: boolean): void {
+        if (this.analytics.length === 0) return;
+
+        if (this.customAmountTimer) {
+            clearTimeout(this.customAmountTimer);
+            this.customAmountTimer = null;
+        }
+
+        const track = () => {
+            this.customAmountTimer = null;
+            // A cleared or too small custom amount selects nothing
+            if (this.state.isCustom !== isCustom || !this.state.isValid) return;
+            this.track("amount_selected", {
+                amount: this.state.amount,
+                currency: this.state.currency,
+                isCustom,
+            });
+        };
+
+        if (isCustom) {
+            this.customAmountTimer = setTimeout(track, CUSTOM_AMOUNT_TRACK_DELAY);
+        } else {
+            track();
+        }
+    }
+
+    // Projects
+
+    /**
+     * Selects one of `state.projects`. Before the configuration has loaded,
+     * the project is selected once it does.
+     */
+    public selectProject(projectId: string): void {
+        if (!this.state.config) {
+            this.preferredProject = projectId;
+            return;
+        }
+
+        const project = this.state.projects.find(
+            (candidate) => candidate.id === projectId
+        );
+        if (!project) {
+            this.reportError(
+                new ValidationError(
+                    `Pay2Nature: project "${projectId}" is not available`
+                )
+            );
+            return;
+        }
+        this.setState({ projectId, activeProjectName: project.name });
+    }
+
+    // Configured projects, restricted to and ordered by the `projects` option
+    private resolveProjects(config: WidgetConfig): WidgetProject[] {
+        const available = (config.projects || []).filter(
+            (project) => project && project.id && project.name
+        );
+        if (!this.allowedProjects) return available;
+
+        return this.allowedProjects
+            .map((id) => available.find((project) => project.id === id))
+            .filter((project): project is WidgetProject => !!project);
+    }
+
+    // Payment methods
+
+    public selectPaymentMethod(paymentMethod: PaymentMethod): void {
+        if (!this.providers.some((provider) => provider.id === paymentMethod)) {
+            this.reportError(
+                new ProviderUnavailableError(
+                    `Pay2Nature: payment method "${paymentMethod}" is not available`
+                )
+            );
+            return;
+        }
+        this.setState({
+            paymentMethod,
+            ...this.resolveFrequency(
+                this.state.config as WidgetConfig,
+                paymentMethod
+            ),
+        });
+    }
+
+    // Frequency
+
+    /**
+     * Selects one of `state.frequencies`. Before the configuration has
+     * loaded, the frequency is selected once it does.
+     */
+    public selectFrequency(frequency: ContributionFrequency): void {
+        if (!this.state.config) {
+            this.preferredFrequency = frequency;
+            return;
+        }
+
+        if (!this.state.frequencies.includes(frequency)) {
+            this.reportError(
+                new ValidationError(
+                    `Pay2Nature: ${frequency} contributions are not available`
+                )
+            );
+            return;
+        }
+        this.preferredFrequency = frequency;
+        this.setState({ frequency });
+    }
+
+    /**
+     * The configured frequencies, limited to one-time contributions when the
+     * payment method can't set up monthly ones, and the frequency to select
+     */
+    private resolveFrequency(
+        config: WidgetConfig,
+        paymentMethod: PaymentMethod | null
+    ): Pick<Pay2NatureState, "frequencies" | "frequency"> {
+        const provider = this.providers.find(
+            (candidate) => candidate.id === paymentMethod
+        );
+        const configured = (config.frequencies || []).filter(
+            (frequency, index, all) =>
+                (frequency === "one-time" ||
+                    (frequency === "monthly" && !!provider?.supportsRecurring)) &&
+                all.indexOf(frequency) === index
+        );
+        const frequencies: ContributionFrequency[] =
+            configured.length > 0 ? configured : ["one-time"];
+
+        // The donor's last choice comes back when a method supporting it is
+        // selected again
+        const frequency =
+            this.preferredFrequency && frequencies.includes(this.preferredFrequency)
+                ? this.preferredFrequency
+                : frequencies.includes(this.state.frequency)
+                  ? this.state.frequency
+                  : frequencies[0];
+
+        return { frequencies, frequency };
+    }
+
+    private resolveProviders(config: WidgetConfig): PaymentProvider[] {
+        const registry = new PaymentProviderRegistry([
+            ...paymentProviders.list(),
+            ...this.extraProviders,
+        ]);
+        return registry.resolve(config, this.allowedPaymentMethods);
+    }
+
+    private getProviderContext(): PaymentProviderContext {
+        return {
+            baseUrl: this.baseUrl,
+            widgetToken: this.widgetToken,
+            config: this.state.config as WidgetConfig,
+            paymentStatus: this.paymentStatusOptions,
+            http: this.http,
+        };
+    }
+
+    // Contribution
+
+    /**
+     * Starts a contribution for the current amount with the selected payment
+     * method. Providers with a UI step (such as mobile money) collect the
+     * donor's details first unless `details` are passed in.
+     * Resolves with the contribution once the payment has been handed off,
+     * or null if it could not be started, the step was cancelled or the
+     * browser blocked the payment window.
+     */
+    public async contribute(
+        options: ContributeOptions = {}
+    ): Promise<ContributionData | null> {
+        if (this.state.isProcessing || this.state.status === "collecting") {
+            return null;
+        }
+
+        if (this.state.mode === "opt-in") {
+            this.reportError(
+                new ValidationError(
+                    "Pay2Nature: contributions are paid through the host checkout in opt-in mode"
+                )
+            );
+            return null;
+        }
+
+        const amount = this.state.amount;
+        const currency = this.state.currency;
+
+        this.track(
+            "contribute_clicked",
+            this.getSelectionProps(this.state.paymentMethod || undefined)
+        );
+
+        if (!this.state.isValid) {
+            this.reportError(
+                new ValidationError(
+                    `Amount must be at least ${this.state.currencySymbol}${this.state.minAmount.toFixed(2)}`
+                )
+            );
+            return null;
+        }
+
+        const provider = this.providers.find(
+            (candidate) => candidate.id === this.state.paymentMethod
+        );
+        if (!provider) {
+            this.reportError(
+                new ProviderUnavailableError(
+                    "Pay2Nature: no payment method is available for this widget"
+                )
+            );
+            return null;
+        }
+
+        let details: unknown = options.details ?? options.mobileMoney ?? null;
+        if (details === null && provider.collectDetails) {
+            const currencySymbol = this.state.currencySymbol;
+            this.setState({ status: "collecting", statusMessage: null });
+
+            // The step closes when the controller or the renderer goes away
+            const stepAbortController = new AbortController();
+            const abortStep = () => stepAbortController.abort();
+            const signals = [this.abortController.signal, options.step?.signal].filter(
+                (signal): signal is AbortSignal => !!signal
+            );
+            signals.forEach((signal) => {
+                if (signal.aborted) abortStep();
+                signal.addEventListener("abort", abortStep);
+            });
+
+            try {
+                details = await provider.collectDetails({
+                    ...this.getProviderContext(),
+                    amount,
+                    currency,
+                    currencySymbol,
+                    container: options.step?.container || null,
+                    messages: options.step?.messages || BUNDLED_CATALOGS.en,
+                    formatAmount:
+                        options.step?.formatAmount ||
+                        ((value) => `${currencySymbol}${value.toFixed(2)}`),
+                    previousDetails: this.previousDetails[provider.id] ?? null,
+                    signal: stepAbortController.signal,
+                });
+            } catch (error) {
+                this.setState({ status: "idle" });
+                this.reportError(Pay2NatureError.from(error));
+                return null;
+            } finally {
+                signals.forEach((signal) =>
+                    signal.removeEventListener("abort", abortStep)
+                );
+            }
+
+            if (details === null) {
+                // The donor cancelled the step
+                this.setState({ status: "idle" });
+                this.track("payment_abandoned", {
+                    ...this.getSelectionProps(provider.id),
+                    reason: "step_cancelled",
+                });
+                return null;
+            }
+            this.previousDetails[provider.id] = details;
+        }
+
+        const start = {
+            amount,
+            currency,
+            paymentMethod: provider.id,
+            frequency: this.state.frequency,
+            ...(this.state.projectId ? { projectId: this.state.projectId } : {}),
+        };
+        this.logger.info("Contribution started", { ...start });
+        this.events.emit("contributionStart", start);
+
+        return this.startPayment(provider, amount, details);
+    }
+
+    /**
+     * Returns a finished contribution (redirected, errored, approved, failed
+     * or expired) to the idle state so a new one can be started
+     */
+    public resetStatus(): void {
+        if (this.state.isProcessing || this.state.status === "collecting") {
+            return;
+        }
+        this.setState({
+            status: "idle",
+            statusMessage: null,
+            checkoutUrl: null,
+            confirmation: null,
+        });
+    }
+
+    /**
+     * Opens the pending payment page in a new window: the fallback when the
+     * browser blocked the popup, or an alternative to the checkout dialog.
+     * Call it from a click handler so the browser allows the window.
+     * Returns whether the window opened.
+     */
+    public openPaymentPage(): boolean {
+        const { checkoutUrl, status, lastContribution } = this.state;
+        if (!checkoutUrl || (status !== "blocked" && status !== "checkout")) {
+            return false;
+        }
+
+        if (!openWindow(checkoutUrl)) {
+            this.reportError(
+                new PopupBlockedError(
+                    "Pay2Nature: the payment page was blocked by the browser",
+                    { data: { paymentUrl: checkoutUrl } }
+                )
+            );
+            return false;
+        }
+
+        const contribution: ContributionData | null = lastContribution
+            ? { ...lastContribution, presentation: "popup" }
+            : null;
+        this.setState({
+            status: "redirecting",
+            checkoutUrl: null,
+            lastContribution: contribution,
+        });
+        // A contribution shown in the dialog was already reported
+        if (status === "blocked" && contribution) {
+            this.events.emit("contribution", contribution);
+        }
+        return true;
+    }
+
+    /**
+     * Closes the checkout dialog, or dismisses a blocked payment page,
+     * returning to the idle state
+     */
+    public closeCheckout(): void {
+        const { status, lastContribution } = this.state;
+        if (status !== "checkout" && status !== "blocked") {
+            return;
+        }
+        this.trackAbandon(
+            lastContribution,
+            status === "checkout" ? "checkout_closed" : "popup_blocked"
+        );
+        this.setState({ status: "idle", statusMessage: null, checkoutUrl: null });
+    }
+
+    private async startPayment(
+        provider: PaymentProvider,
+        amount: number,
+        details: unknown
+    ): Promise<ContributionData | null> {
+        // Browsers only allow popups during the donor's click, so the window
+        // is opened before waiting for the payment page
+        const isOffline = this.environment === "offline";
+        const popup =
+            this.presentation === "popup" && provider.opensPaymentPage && !isOffline
+                ? openWindow("")
+                : undefined;
+
+        try {
+            this.setState({
+                isProcessing: true,
+                status: "processing",
+                statusMessage: null,
+                checkoutUrl: null,
+            });
+
+            const context = this.getProviderContext();
+            const projectId = this.state.projectId;
+            const frequency = this.state.frequency;
+            const returnUrls = this.returnUrlOptions
+                ? buildReturnUrls(
+                      this.returnUrlOptions,
+                      this.widgetToken,
+                      provider.id,
+                      amount
+                  )
+                : null;
+            const result = await provider.initiate(
+                {
+                    amount,
+                    currency: this.state.currency,
+                    details,
+                    frequency,
+                    projectId,
+                    returnUrls,
+                },
+                context
+            );
+
+            // A payment page provider that returns none has handed nothing off
+            if (provider.opensPaymentPage && !result.paymentUrl) {
+                throw new PaymentRejectedError(
+                    `Pay2Nature: the "${provider.id}" payment returned no payment page`,
+                    { data: result }
+                );
+            }
+
+            const contribution: ContributionData = {
+                amount,
+                currency: this.state.currency,
+                paymentMethod: provider.id,
+                frequency,
+                ...(result.paymentUrl ? { paymentUrl: result.paymentUrl } : {}),
+                ...(projectId ? { projectId } : {}),
+                ...(result.projectName ? { projectName: result.projectName } : {}),
+                ...(result.paymentToken ? { paymentToken: result.paymentToken } : {}),
+            };
+
+            let presented: ContributionData | null = contribution;
+            if (result.paymentUrl && isOffline) {
+                presented = this.simulatePaymentPage(
+                    provider,
+                    contribution,
+                    result.paymentUrl
+                );
+            } else if (result.paymentUrl) {
+                presented = this.presentPaymentPage(
+                    contribution,
+                    result.paymentUrl,
+                    popup
+                );
+            } else {
+                this.setState({ lastContribution: contribution });
+            }
+
+            // Blocked payment pages are reported once openPaymentPage() opens them
+            if (presented) {
+                this.events.emit("contribution", presented);
+            }
+
+            if (result.paymentToken && provider.trackStatus) {
+                this.trackPaymentStatus(
+                    provider,
+                    presented || contribution,
+                    result.paymentToken
+                );
+            } else if (!result.paymentUrl) {
+                // Nothing to track; treat the payment as handed off
+                this.setState({ isProcessing: false, status: "idle" });
+            }
+
+            return presented;
+        } catch (error) {
+            popup?.close();
+            return this.handleContributionError(error);
+        }
+    }
+
+    /**
+     * Shows the hosted payment page as configured by the `presentation`
+     * option. Returns the contribution with its presentation, or null when
+     * the browser blocked the popup.
+     */
+    private presentPaymentPage(
+        contribution: ContributionData,
+        paymentUrl: string,
+        popup: Window | null | undefined
+    ): ContributionData | null {
+        // The URL ends up in window.open() and an iframe; never run scripts
+        if (!isHttpUrl(paymentUrl)) {
+            throw new ValidationError(
+                "Pay2Nature: the payment page URL must use http or https",
+                { data: { paymentUrl } }
+            );
+        }
+
+        if (this.presentation === "modal") {
+            const presented: ContributionData = { ...contribution, presentation: "modal" };
+            this.setState({
+                isProcessing: false,
+                status: "checkout",
+                checkoutUrl: paymentUrl,
+                lastContribution: presented,
+            });
+            return presented;
+        }
+
+        if (this.presentation === "redirect") {
+            const presented: ContributionData = { ...contribution, presentation: "redirect" };
+            this.setState({
+                isProcessing: false,
+                status: "redirecting",
+                lastContribution: presented,
+            });
+            window.location.assign(paymentUrl);
+            return presented;
+        }
+
+        const opened =
+            popup === undefined
+                ? openWindow(paymentUrl)
+                : navigateWindow(popup, paymentUrl);
+        if (!opened) {
+            this.setState({
+                isProcessing: false,
+                status: "blocked",
+                checkoutUrl: paymentUrl,
+                lastContribution: contribution,
+            });
+            this.reportError(
+                new PopupBlockedError(
+                    "Pay2Nature: the payment page was blocked by the browser",
+                    { data: { paymentUrl } }
+                )
+            );
+            return null;
+        }
+
+        const presented: ContributionData = { ...contribution, presentation: "popup" };
+        this.setState({
+            isProcessing: false,
+            status: "redirecting",
+            lastContribution: presented,
+        });
+        return presented;
+    }
+
+    /**
+     * Offline, no payment page is shown: the donor returns from it straight
+     * away and the simulated payment is confirmed as after a real return
+     */
+    private simulatePaymentPage(
+        provider: PaymentProvider,
+        contribution: ContributionData,
+        paymentUrl: string
+    ): ContributionData {
+        const presented: ContributionData = {
+            ...contribution,
+            presentation: this.presentation,
+        };
+        this.setState({
+            isProcessing: false,
+            status: "redirecting",
+            lastContribution: presented,
+        });
+
+        // After the contribution event, as a real return would be
+        setTimeout(() => {
+            if (this.destroyed) return;
+            this.confirmPaymentReturn({
+                outcome: "success",
+                paymentMethod: provider.id,
+                amount: contribution.amount,
+                sessionId: getOfflineSessionId(paymentUrl),
+            });
+        }, 0);
+        return presented;
+    }
+
+    private handleContributionError(error: unknown): null {
+        // Requests cancelled by destroy() have nothing left to report to
+        if (this.destroyed) return null;
+
+        this.logger.error("Contribution failed", error);
+        const contributionError = toPaymentError(error);
+
+        this.setState({
+            isProcessing: false,
+            status: "error",
+            statusMessage: contributionError.message,
+        });
+        this.reportError(contributionError);
+
+        return null;
+    }
+
+    /**
+     * Confirms the payment the donor returned from with the server, retrying
+     * while it is still settling, and emits `contributionConfirmed` once it
+     * is approved. Returns from a cancelled payment need no confirmation.
+     */
+    private async confirmPaymentReturn(paymentReturn: PaymentReturn): Promise<void> {
+        if (paymentReturn.outcome === "cancel") {
+            this.track("payment_abandoned", {
+                ...(paymentReturn.amount !== null
+                    ? { amount: paymentReturn.amount, currency: this.state.currency }
+                    : {}),
+                paymentMethod: paymentReturn.paymentMethod,
+                reason: "payment_page_cancelled",
+            });
+            return;
+        }
+
+        const provider = this.providers.find(
+            (candidate) => candidate.id === paymentReturn.paymentMethod
+        );
+        const sessionId = paymentReturn.sessionId;
+        if (!provider?.confirmReturn || !sessionId) {
+            this.reportError(
+                new ProviderUnavailableError(
+                    `Pay2Nature: the "${paymentReturn.paymentMethod}" payment the donor returned from can't be confirmed`
+                )
+            );
+            return;
+        }
+
+        this.setState({
+            isProcessing: true,
+            status: "confirming",
+            statusMessage: null,
+        });
+
+        try {
+            let confirmation = await provider.confirmReturn(
+                sessionId,
+                this.getProviderContext()
+            );
+            for (
+                let attempt = 1;
+                confirmation.status === "pending" && attempt < CONFIRM_ATTEMPTS;
+                attempt++
+            ) {
+                await new Promise((resolve) =>
+                    setTimeout(resolve, CONFIRM_RETRY_DELAY)
+                );
+                if (this.destroyed) return;
+                confirmation = await provider.confirmReturn(
+                    sessionId,
+                    this.getProviderContext()
+                );
+            }
+
+            // With several projects, the selected one need not be the one paid for
+            const project = this.state.projects.find(
+                (candidate) => candidate.id === confirmation.projectId
+            );
+            const projectName =
+                confirmation.projectName ||
+                project?.name ||
+                (this.state.projects.length === 0
+                    ? this.state.activeProjectName
+                    : null);
+            const confirmed: ConfirmedContribution = {
+                amount: confirmation.amount ?? paymentReturn.amount ?? 0,
+                currency: confirmation.currency || this.state.currency,
+                paymentMethod: provider.id,
+                ...(confirmation.projectId ? { projectId: confirmation.projectId } : {}),
+                ...(projectName ? { projectName } : {}),
+                sessionId,
+                status: confirmation.status,
+                ...(confirmation.receiptUrl && isHttpUrl(confirmation.receiptUrl)
+                    ? { receiptUrl: confirmation.receiptUrl }
+                    : {}),
+            };
+            const isSettling =
+                confirmation.status === "approved" ||
+                confirmation.status === "pending";
+
+            this.setState({
+                isProcessing: false,
+                status: isSettling ? "confirmed" : confirmation.status,
+                statusMessage: confirmation.message || null,
+                confirmation: confirmed,
+            });
+
+            if (confirmation.status === "approved") {
+                this.events.emit("contributionConfirmed", confirmed);
+            }
+        } catch (error) {
+            this.handleContributionError(error);
+        }
+    }
+
+    private trackPaymentStatus(
+        provider: PaymentProvider,
+        contribution: ContributionData,
+        paymentToken: string
+    ): void {
+        if (!provider.trackStatus) return;
+
+        if (this.statusSubscription) {
+            this.statusSubscription.stop();
+        }
+
+        this.statusSubscription = provider.trackStatus(
+            paymentToken,
+            this.getProviderContext(),
+            (update) => this.handlePaymentStatus(contribution, update)
+        );
+    }
+
+    private handlePaymentStatus(
+        contribution: ContributionData,
+        update: PaymentStatusUpdate
+    ): void {
+        const data: PaymentStatusData = {
+            ...contribution,
+            paymentToken: update.paymentToken,
+            status: update.status,
+            message: update.message,
+        };
+
+        const isFinished = update.status !== "pending";
+        if (isFinished) {
+            this.statusSubscription = null;
+        }
+
+        this.setState({
+            isProcessing: !isFinished,
+            status: update.status,
+            statusMessage: update.message || null,
+        });
+
+        this.logger.info(`Payment ${update.status}`, {
+            paymentMethod: contribution.paymentMethod,
+            paymentToken: update.paymentToken,
+        });
+        this.events.emit("paymentStatus", data);
+    }
+
+    // Analytics
+
+    /**
+     * Tracks the `impression` analytics event, once per controller.
+     * Renderers call it when the widget first becomes visible.
+     */
+    public trackImpression(): void {
+        if (this.hasTrackedImpression || !this.state.config) return;
+        this.hasTrackedImpression = true;
+        this.track("impression", { currency: this.state.currency });
+    }
+
+    private track(
+        event: AnalyticsEventName,
+        props: Omit<AnalyticsProps, "widgetToken" | "mode"> = {}
+    ): void {
+        if (this.analytics.length === 0 || this.destroyed) return;
+        trackAnalyticsEvent(
+            this.analytics,
+            event,
+            {
+                widgetToken: this.widgetToken,
+                mode: this.state.mode,
+                ...props,
+            },
+            this.logger
+        );
+    }
+
+    /**
+     * Funnel events that follow the controller's own events
+     */
+    private trackEvents(): void {
+        this.on("contribution", (contribution) => {
+            this.track("payment_opened", getContributionProps(contribution));
+        });
+        this.on("contributionConfirmed", (contribution) => {
+            this.track("payment_completed", getContributionProps(contribution));
+        });
+        this.on("paymentStatus", (data) => {
+            if (data.status === "approved") {
+                this.track("payment_completed", getContributionProps(data));
+            } else if (data.status === "expired") {
+                this.trackAbandon(data, "expired");
+            }
+        });
+    }
+
+    private trackAbandon(
+        contribution: ContributionData | null,
+        reason: AnalyticsAbandonReason
+    ): void {
+        this.track("payment_abandoned", {
+            ...(contribution
+                ? getContributionProps(contribution)
+                : this.getSelectionProps(this.state.paymentMethod || undefined)),
+            reason,
+        });
+    }
+
+    // The contribution about to be started
+    private getSelectionProps(
+        paymentMethod: PaymentMethod | undefined
+    ): Omit<AnalyticsProps, "widgetToken" | "mode"> {
+        return {
+            amount: this.state.amount,
+            currency: this.state.currency,
+            isCustom: this.state.isCustom,
+            paymentMethod,
+            frequency: this.state.frequency,
+            projectId: this.state.projectId || undefined,
+        };
+    }
+
+    // Logging and diagnostics
+
+    /**
+     * The controller's logger, for renderers and wrappers to log through
+     * with the same level, sink and instance id
+     */
+    public getLogger(): Logger {
+        return this.logger;
+    }
+
+    /**
+     * What the diagnostics panel shows: where the configuration came from,
+     * the API calls made and the last error reported
+     */
+    public getDiagnostics(): Pay2NatureDiagnostics {
+        return {
+            instanceId: this.instanceId,
+            configSource: this.configSource,
+            requests: this.requestLog,
+            lastError: this.lastError,
+        };
+    }
+
+    /**
+     * Wraps the fetch implementation so every API call is logged at debug
+     * level and kept for diagnostics
+     */
+    private recordRequests(fetchFn: FetchFunction | undefined): FetchFunction {
+        return async (input, init = {}) => {
+            const method = (init.method || "GET").toUpperCase();
+            const startedAt = Date.now();
+            const record = (status: number | null, error?: unknown) => {
+                // Requests cancelled by destroy() settle afterwards
+                if (this.destroyed) return;
+                const request: ApiRequestLog = {
+                    method,
+                    url: input,
+                    status,
+                    duration: Date.now() - startedAt,
+                };
+                if (error !== undefined) {
+                    request.error = error instanceof Error ? error.message : String(error);
+                }
+                this.requestLog = [...this.requestLog, request].slice(-MAX_LOGGED_REQUESTS);
+                this.logger.debug(
+                    `${method} ${input} ${status ?? "failed"} (${request.duration}ms)`,
+                    { ...request }
+                );
+            };
+
+            try {
+                const response = await (fetchFn ? fetchFn(input, init) : fetch(input, init));
+                record(response.status);
+                return response;
+            } catch (error) {
+                record(null, error);
+                throw error;
+            }
+        };
+    }
+
+    public destroy(): void {
+        if (this.destroyed) return;
+
+        if (this.customAmountTimer) {
+            clearTimeout(this.customAmountTimer);
+            this.customAmountTimer = null;
+        }
+
+        if (this.statusSubscription) {
+            this.statusSubscription.stop();
+            this.statusSubscription = null;
+        }
+        this.abortController.abort();
+        this.events.emit("destroy", undefined);
+        this.events.removeAllListeners();
+        this.listeners.clear();
+        this.destroyed = true;
+    }
+}
@@ -0,0 +1,291 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Pay2NatureController } from "./Pay2NatureController";
+import { Pay2NatureWidget, Pay2NatureWidgetOptions } from "./Pay2NatureWidget";
+import {
+    clickWidget,
+    createMockServer,
+    getWidgetRoot,
+    getWidgetText,
+    inputWidget,
+    MockServer,
+    MOCK_PAYMENT_URL,
+    queryAllWidget,
+    queryWidget,
+    waitFor,
+    waitForWidget,
+} from "../testing";
+
+let server: MockServer;
+let container: HTMLElement;
+let widget: Pay2NatureWidget | null = null;
+
+function createWidget(options: Partial<Pay2NatureWidgetOptions> = {}): Pay2NatureWidget {
+    widget = new Pay2NatureWidget({
+        widgetToken: "test-token",
+        baseUrl: "https://api.pay2nature.test",
+        container,
+        configCache: false,
+        returnUrls: false,
+        http: { fetch: server.fetch, retryDelay: 0 },
+        ...options,
+    });
+    return widget;
+}
+
+beforeEach(() => {
+    server = createMockServer();
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+    widget?.destroy();
+    widget = null;
+    container.remove();
+});
+
+describe("Pay2NatureWidget", () => {
+    it("renders the presets, the project and the contribute button", async () => {
+        createWidget();
+        await waitForWidget(container, ".p2n-contribute");
+
+        const presets = queryAllWidget(container, ".p2n-amount");
+        expect(presets.map((button) => button.textContent?.trim())).toEqual([
+            "$1.00",
+            "$3.25",
+            "$5.50",
+            "$7.75",
+            "$10.00",
+        ]);
+        expect(getWidgetText(container)).toContain("Mangrove Restoration");
+        expect(queryWidget(container, ".p2n-contribute")?.textContent).toBe(
+            "Contribute $2.00"
+        );
+    });
+
+    it("selects presets and custom amounts", async () => {
+        createWidget();
+        await waitForWidget(container, ".p2n-amount");
+
+        clickWidget(container, ".p2n-amount[data-amount='5.5']");
+        const selected = queryWidget(container, ".p2n-amount[aria-checked='true']");
+        expect(selected?.dataset.amount).toBe("5.5");
+        expect(queryWidget(container, ".p2n-contribute")?.textContent).toBe(
+            "Contribute $5.50"
+        );
+
+        inputWidget(container, ".p2n-custom", "0.5");
+        const button = queryWidget<HTMLButtonElement>(container, ".p2n-contribute");
+        expect(button?.disabled).toBe(true);
+        expect(button?.textContent).toBe("Minimum $1.00");
+
+        inputWidget(container, ".p2n-custom", "8");
+        expect(widget?.getSelection()).toMatchObject({ amount: 8, isCustom: true });
+        expect(queryWidget(container, ".p2n-amount[aria-checked='true']")).toBeNull();
+    });
+
+    it("escapes server-supplied text", async () => {
+        server.setConfig({ activeProjectName: "<img src=x onerror=alert(1)>" });
+        createWidget();
+        await waitForWidget(container, ".p2n-contribute");
+
+        expect(queryWidget(container, "img[src='x']")).toBeNull();
+        expect(getWidgetText(container)).toContain("<img src=x onerror=alert(1)>");
+    });
+
+    it("refuses theme tokens that could break out of the declaration", async () => {
+        createWidget({
+            theme: {
+                tokens: {
+                    primary: "red; } :host { display: none",
+                    text: "#123456",
+                },
+            },
+        });
+        await waitForWidget(container, ".p2n-contribute");
+
+        const css = Array.from(getWidgetRoot(container)?.querySelectorAll("style") || [])
+            .map((style) => style.textContent)
+            .join("");
+        expect(css).not.toContain("display: none");
+        expect(css).toContain("--p2n-primary: #16a34a;");
+        expect(css).toContain("--p2n-text: #123456;");
+    });
+
+    it("drops project images that aren't http(s) URLs", async () => {
+        server.setConfig({
+            projects: [
+                { id: "mangroves", name: "Mangroves", imageUrl: "https://cdn.test/mangroves.jpg" },
+                { id: "peatlands", name: "Peatlands", imageUrl: "javascript:alert(1)" },
+            ],
+        });
+        createWidget();
+        await waitForWidget(container, ".p2n-project");
+
+        expect(
+            queryAllWidget<HTMLImageElement>(container, ".p2n-project-image").map((image) => image.src)
+        ).toEqual(["https://cdn.test/mangroves.jpg"]);
+    });
+
+    it("shows an error when the configuration is missing", async () => {
+        server.setScenario("not-found");
+        const onError = vi.fn();
+        createWidget({ onError });
+
+        await waitFor(() => queryWidget(container, "[role=alert]"));
+        expect(getWidgetText(container)).toContain(
+            "Widget configuration not found for token: test-token"
+        );
+        expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it("shows an error when there are no active projects", async () => {
+        server.setScenario("no-active-projects");
+        createWidget();
+
+        await waitFor(() => getWidgetText(container).includes("No active projects"));
+        expect(queryWidget(container, ".p2n-contribute")).toBeNull();
+    });
+
+    it("opens the payment page in a dialog with the modal presentation", async () => {
+        const onContribution = vi.fn();
+        createWidget({ presentation: "modal", onContribution });
+        await waitForWidget(container, ".p2n-contribute");
+
+        clickWidget(container, ".p2n-contribute");
+        const iframe = await waitForWidget<HTMLIFrameElement>(container, ".p2n-checkout iframe");
+
+        expect(iframe.src).toBe(MOCK_PAYMENT_URL);
+        expect(onContribution.mock.calls[0][0]).toMatchObject({
+            amount: 2,
+            presentation: "modal",
+        });
+
+        clickWidget(container, ".p2n-checkout-close");
+        expect(queryWidget(container, ".p2n-checkout")).toBeNull();
+    });
+
+    it("shows a retry state when the payment is rejected", async () => {
+        vi.spyOn(window, "open").mockReturnValue(null);
+        server.setScenario("payment-failure");
+        createWidget();
+        await waitForWidget(container, ".p2n-contribute");
+
+        clickWidget(container, ".p2n-contribute");
+
+        await waitFor(() => queryWidget(container, ".p2n-contribute.p2n-failed"));
+        expect(queryWidget(container, ".p2n-contribute")?.textContent).toBe(
+            "Payment Error - Try Again"
+        );
+    });
+
+    it("renders a switch in opt-in mode", async () => {
+        const onToggle = vi.fn();
+        createWidget({ mode: "opt-in", onToggle });
+        await waitForWidget(container, ".p2n-toggle-input");
+
+        expect(queryWidget(container, ".p2n-contribute")).toBeNull();
+        clickWidget(container, ".p2n-toggle-input");
+
+        expect(onToggle).toHaveBeenCalledWith(true);
+        expect(widget?.getSelection().enabled).toBe(true);
+    });
+
+    it("switches locale without re-creating the widget", async () => {
+        createWidget();
+        await waitForWidget(container, ".p2n-contribute");
+        const button = queryWidget(container, ".p2n-contribute");
+
+        widget?.setLocale("fr");
+
+        expect(queryWidget(container, ".p2n-contribute")).toBe(button);
+        expect(button?.textContent).toBe("Contribuer $2,00");
+    });
+
+    it("empties the shadow root when destroyed", async () => {
+        createWidget();
+        await waitForWidget(container, ".p2n-contribute");
+
+        widget?.destroy();
+        widget = null;
+
+        expect(getWidgetRoot(container)?.childNodes).toHaveLength(0);
+    });
+
+    it("settles an open mobile money step when destroyed", async () => {
+        const contribute = vi.spyOn(Pay2NatureController.prototype, "contribute");
+        createWidget({
+            widgetToken: "mobile-money",
+            environment: "offline",
+            offline: { latency: 0 },
+        });
+        await waitForWidget(container, ".p2n-contribute");
+
+        clickWidget(container, ".p2n-contribute");
+        await waitForWidget(container, ".p2n-mm");
+
+        widget?.destroy();
+        widget = null;
+
+        await expect(contribute.mock.results[0].value).resolves.toBeNull();
+    });
+});
+
+describe("debug mode", () => {
+    it("shows the diagnostics panel", async () => {
+        server.setScenario("payment-failure");
+        vi.spyOn(window, "open").mockReturnValue(null);
+        createWidget({ debug: true, logger: { log: () => {} }, onError: () => {} });
+        await waitForWidget(container, ".p2n-contribute");
+
+        const diagnostic = (name: string) =>
+            queryWidget(container, `[data-diagnostic='${name}']`)?.textContent?.trim();
+        expect(diagnostic("config")).toBe("network");
+        expect(diagnostic("requests")).toMatch(/^GET \/api\/widget\/test-token\/config → 200/);
+
+        clickWidget(container, ".p2n-contribute");
+        await waitFor(() => diagnostic("error")?.startsWith("PAYMENT_REJECTED"));
+        expect(diagnostic("state")).toBe("error · $2.00 · stripe · one-time");
+        expect(diagnostic("requests")).toContain(
+            "POST /api/widget/test-token/stripe/create-payment-link → 400"
+        );
+
+        clickWidget(container, ".p2n-diagnostics-toggle");
+        expect(queryWidget(container, ".p2n-diagnostics-body")?.hidden).toBe(true);
+    });
+
+    it("is not shown by default", async () => {
+        createWidget();
+        await waitForWidget(container, ".p2n-contribute");
+
+        expect(queryWidget(container, ".p2n-diagnostics")).toBeNull();
+    });
+});
+
+describe("environments", () => {
+    it("badges sandbox widgets as TEST", async () => {
+        createWidget({ environment: "sandbox" });
+        await waitForWidget(container, ".p2n-contribute");
+
+        const badge = queryWidget(container, ".p2n-test-badge");
+        expect(badge?.textContent?.trim()).toBe("TEST");
+        expect(badge?.dataset.environment).toBe("sandbox");
+    });
+
+    it("badges the loading state offline, too", () => {
+        createWidget({ environment: "offline" });
+
+        expect(queryWidget(container, ".p2n-status")).not.toBeNull();
+        expect(queryWidget(container, ".p2n-test-badge")?.dataset.environment).toBe(
+            "offline"
+        );
+    });
+
+    it("is not badged live", async () => {
+        createWidget();
+        await waitForWidget(container, ".p2n-contribute");
+
+        expect(queryWidget(container, ".p2n-test-badge")).toBeNull();
+    });
+});
@@ -1,88 +1,138 @@
 /**
  * Pay2Nature Widget Core Class
- * Framework-agnostic implementation that can be used with any framework
+ * Framework-agnostic implementation that can be used with any framework.
+ * Renders the state of a headless `Pay2NatureController` into a shadow root.
  */
 
-export interface Pay2NatureWidgetOptions {
-    widgetToken: string;
-    baseUrl: string;
+import { resolveTheme, themeToCss, ThemeOption, ThemeTokens } from "./theme";
+import {
+    DEFAULT_LOCALE,
+    formatMessage,
+    getTextDirection,
+    MessageCatalogs,
+    resolveMessages,
+    TextDirection,
+    WidgetMessages,
+} from "./i18n";
+import {
+    Pay2NatureController,
+    Pay2NatureControllerOptions,
+    Pay2NatureState,
+    PaymentMethodOption,
+} from "./Pay2NatureController";
+import { ValidationError } from "./errors";
+import { isHttpUrl } from "./http";
+import { html, patch, SafeHtml } from "./dom";
+import { getAttachedShadowRoot, setAttachedShadowRoot } from "./shadowRoots";
+import type { AmountOptions } from "./amounts";
+import type { AnalyticsAdapter } from "./analytics";
+import type { Pay2NatureEventMap } from "./events";
+import type { ApiRequestLog, Logger, Pay2NatureLogger } from "./logger";
+import type {
+    ConfirmedContribution,
+    ContributionFrequency,
+    ContributionSelection,
+    WidgetConfig,
+} from "./types";
+
+export type {
+    ConfirmedContribution,
+    ContributionData,
+    ContributionFrequency,
+    ContributionSelection,
+    PaymentPresentation,
+    PaymentStatusData,
+    WidgetConfig,
+    WidgetProject,
+} from "./types";
+
+export interface Pay2NatureWidgetOptions extends Pay2NatureControllerOptions {
     container?: HTMLElement | string | null;
-    onContribution?: (data: ContributionData) => void;
-    onToggle?: (isEnabled: boolean) => void;
-    onError?: (error: Error) => void;
+    theme?: ThemeOption;
+    locale?: string;
+    messages?: MessageCatalogs;
+    dir?: TextDirection;
+    // How donors choose between several projects (default: "auto", cards
+    // for up to three projects and a dropdown for more)
+    projectPicker?: ProjectPicker;
 }
 
-export interface ContributionData {
-    amount: number;
-    currency: string;
-    paymentUrl?: string;
-    projectName?: string;
-    paymentToken?: string;
-}
+export type ProjectPicker = "auto" | "cards" | "dropdown";
+
+const MAX_PROJECT_CARDS = 3;
 
-export interface WidgetConfig {
-    currency: string;
-    currencySymbol: string;
-    minAmount: number;
-    maxAmount: number;
-    defaultAmount: number;
-    activeProjectName: string | null;
-    hasActiveProjects: boolean;
+// API calls listed in the diagnostics panel
+const MAX_DIAGNOSTICS_REQUESTS = 5;
+
+function describeRequest(request: ApiRequestLog): string {
+    let path = request.url;
+    try {
+        path = new URL(request.url, "http://localhost").pathname;
+    } catch {
+        // Shown as given
+    }
+    const outcome = request.status ?? request.error ?? "failed";
+    return `${request.method} ${path} → ${outcome} (${request.duration}ms)`;
 }
 
 export class Pay2NatureWidget {
-    private baseUrl: string;
-    private widgetToken: string;
+    private controller: Pay2NatureController;
+    private unsubscribe: () => void;
     private container: HTMLElement | null;
     private shadowRoot: ShadowRoot | null = null;
-    private isEnabled: boolean = true;
-    private selectedAmount: number = 0;
-    private customAmount: string = "";
-    private isCustom: boolean = false;
-    private isLoading: boolean = true;
-    private config: WidgetConfig | null = null;
-    private isProcessing: boolean = false;
-    private mobileMoneyNumber: string = "";
-    private mobileMoneyName: string = "";
-    private mobileMoneyProvider: string = "";
-    private mobileMoneyAnonymous: boolean = false;
-    private showMobileMoneyPrompt: boolean = false;
-    private mobileMoneyModal: any = null;
-
-    // Default fallback values
-    private currency: string = "USD";
-    private currencySymbol: string = "$";
-    private minAmount: number = 0.5;
-    private maxAmount: number = 5.0;
-    private defaultAmount: number = 1.0;
-    private predefinedAmounts: number[] = [];
-    private activeProjectName: string | null = null;
-
-    // Event callbacks
-    private onContribution: (data: ContributionData) => void;
-    private onToggle: (isEnabled: boolean) => void;
-    private onError: (error: Error) => void;
+    private root: HTMLElement | null = null;
+    private themeStyle: HTMLStyleElement | null = null;
+    private removeEventListeners: (() => void) | null = null;
+    private themeTokens: ThemeTokens;
+    private locale: string;
+    private messageOverrides: MessageCatalogs;
+    private messages: WidgetMessages;
+    private dirOverride: TextDirection | undefined;
+    private projectPicker: ProjectPicker;
+    private statusResetTimer: ReturnType<typeof setTimeout> | null = null;
+    private announceTimer: ReturnType<typeof setTimeout> | null = null;
+    // Closes an open payment step when the widget is destroyed
+    private stepAbortController: AbortController | null = null;
+    private impressionObserver: IntersectionObserver | null = null;
+    private logger: Logger;
+    private isDebug: boolean;
+    private diagnosticsRoot: HTMLElement | null = null;
+    private isDiagnosticsOpen: boolean = true;
 
     constructor(options: Pay2NatureWidgetOptions) {
         if (!options.baseUrl || !options.widgetToken) {
-            throw new Error("Pay2Nature: widgetToken and baseUrl are required");
+            throw new ValidationError("Pay2Nature: widgetToken and baseUrl are required");
         }
 
-        this.baseUrl = options.baseUrl;
-        this.widgetToken = options.widgetToken;
         this.container = this.resolveContainer(options.container);
-        this.onContribution = options.onContribution || (() => {});
-        this.onToggle = options.onToggle || (() => {});
-        this.onError = options.onError || ((error) => console.error(error));
+        this.themeTokens = resolveTheme(options.theme);
+        this.locale = options.locale || DEFAULT_LOCALE;
+        this.messageOverrides = options.messages || {};
+        this.messages = resolveMessages(this.locale, this.messageOverrides);
+        this.dirOverride = options.dir;
+        this.projectPicker = options.projectPicker || "auto";
+
+        this.controller = new Pay2NatureController(options);
+        this.logger = this.controller.getLogger();
+        this.isDebug = !!options.debug;
+        this.unsubscribe = this.controller.subscribe((state, previousState) =>
+            this.handleStateChange(state, previousState)
+        );
+        if (this.isDebug) {
+            // API calls are logged without a state change
+            this.controller.on("log", () => this.renderDiagnostics());
+        }
 
         // Initialize widget asynchronously
         this.init();
-        this.loadMobileMoneyModal();
     }
 
     private resolveContainer(
         container: HTMLElement | string | null | undefined
     ): HTMLElement | null {
+        // Nothing to render into during server rendering
+        if (typeof document === "undefined") return null;
+
         if (!container) {
             const fallback = document.getElementById("pay2nature-widget");
             return fallback;
@@ -95,175 +145,183 @@ export class Pay2NatureWidget {
         return container;
     }
 
+    /**
+     * Attaches a closed shadow root to the container, or reuses the one a
+     * previous widget attached (e.g. after React StrictMode re-mounts or a
+     * custom element being moved in the document)
+     */
     private createShadowDOM(): void {
         if (!this.container) return;
 
-        // Check if shadow root already exists on the container
-        // This can happen in React StrictMode which double-invokes effects
-        if (this.container.shadowRoot) {
-            // Reuse existing shadow root and clear it
-            this.shadowRoot = this.container.shadowRoot;
-            this.shadowRoot.innerHTML = "";
-            return;
-        }
-
-        // Create new shadow root
-        try {
-            // Check again right before attaching (race condition protection)
-            const existingShadowBeforeAttach = this.container.shadowRoot;
-            if (existingShadowBeforeAttach) {
-                this.shadowRoot = existingShadowBeforeAttach as ShadowRoot;
-                this.shadowRoot.innerHTML = "";
+        let shadowRoot = getAttachedShadowRoot(this.container);
+        if (!shadowRoot) {
+            try {
+                shadowRoot = this.container.attachShadow({ mode: "closed" });
+            } catch (error) {
+                this.logger.error("Failed to create shadow DOM", error);
                 return;
             }
+            setAttachedShadowRoot(this.container, shadowRoot);
+        }
 
-            this.shadowRoot = this.container.attachShadow({
-                mode: "closed",
-            });
-        } catch (error) {
-            // If shadow DOM creation fails, check if one was created by another instance
-            const existingShadowRoot = this.container.shadowRoot;
-            if (existingShadowRoot) {
-                this.shadowRoot = existingShadowRoot as ShadowRoot;
-                this.shadowRoot.innerHTML = "";
-            } else {
-                console.error(
-                    "Pay2Nature: Failed to create shadow DOM:",
-                    error
-                );
-                // Fallback: if shadow DOM creation fails, we'll use the container directly
-                // This shouldn't happen, but provides a safety net
-            }
+        shadowRoot.innerHTML = "";
+        this.shadowRoot = shadowRoot;
+
+        // Styles are set as text; rendering only patches the root element
+        this.themeStyle = document.createElement("style");
+        this.themeStyle.setAttribute("data-p2n-theme", "");
+        this.themeStyle.textContent = this.getThemeStyles();
+        const baseStyle = document.createElement("style");
+        baseStyle.textContent = this.getBaseStyles();
+        this.root = document.createElement("div");
+        shadowRoot.append(this.themeStyle, baseStyle, this.root);
+
+        if (this.isDebug) {
+            baseStyle.textContent += this.getDiagnosticsStyles();
+            this.diagnosticsRoot = document.createElement("div");
+            shadowRoot.append(this.diagnosticsRoot);
         }
     }
 
     async init(): Promise<void> {
+        if (typeof document === "undefined") return;
+
         if (!this.container) {
-            console.error(
-                "Pay2Nature: Container element not provided to widget constructor"
-            );
+            this.logger.error("Container element not provided to widget constructor");
             return;
         }
 
         this.createShadowDOM();
 
         if (!this.shadowRoot) {
-            console.error("Pay2Nature: Failed to create shadow DOM");
+            this.logger.error("Failed to create shadow DOM");
             return;
         }
 
-        this.renderLoading();
-
-        try {
-            await this.fetchConfiguration();
+        this.attachEventListeners();
 
-            if (!this.config?.hasActiveProjects) {
-                this.renderError(
-                    "Configuration Error: No active projects found. Please ensure you have at least one active project before using the widget."
-                );
-                return;
-            }
+        // Renders the ready state straight away when given an initialConfig
+        this.renderCurrentState();
 
-            this.render();
-            this.attachEventListeners();
-        } catch (error) {
-            console.error("Pay2Nature Widget initialization failed:", error);
-            const errorMessage =
-                error instanceof Error ? error.message : "Unknown error";
-            this.renderError(errorMessage);
-            this.onError(new Error(errorMessage));
-        }
+        await this.controller.load();
     }
 
-    private async fetchConfiguration(): Promise<void> {
-        const url = `${this.baseUrl}/api/widget/${this.widgetToken}/config`;
+    private handleStateChange(
+        state: Pay2NatureState,
+        previousState: Pay2NatureState
+    ): void {
+        this.renderCurrentState();
 
-        try {
-            const response = await fetch(url);
+        if (state.status !== previousState.status) {
+            this.updatePaymentStep(state, previousState);
+            this.updateCheckoutDialog(state, previousState);
+            this.scheduleStatusReset(state);
+        }
 
-            if (!response.ok) {
-                if (response.status === 404) {
-                    throw new Error(
-                        `Widget configuration not found for token: ${this.widgetToken}`
-                    );
-                }
-                throw new Error(
-                    `Failed to fetch widget configuration: ${response.status} ${response.statusText}`
-                );
-            }
+        this.announceChanges(state, previousState);
+    }
 
-            const configData = await response.json();
-            this.config = configData as WidgetConfig;
+    /**
+     * While a provider collects details (e.g. the mobile money form) its
+     * step replaces the amount selection; once it closes, clear it and
+     * return focus to the contribute button
+     */
+    private updatePaymentStep(
+        state: Pay2NatureState,
+        previousState: Pay2NatureState
+    ): void {
+        if (!this.shadowRoot) return;
 
-            if (!this.config) {
-                throw new Error(
-                    `No configuration found for widget token: ${this.widgetToken}`
-                );
-            }
+        const step = this.shadowRoot.querySelector(".p2n-step") as HTMLElement;
+        if (!step) return;
 
-            // Update widget properties from fetched config
-            this.currency = this.config.currency || "USD";
-            this.currencySymbol = this.config.currencySymbol || "$";
-            this.minAmount = parseFloat(
-                String(this.config.minAmount || "0.50")
-            );
-            this.maxAmount = parseFloat(
-                String(this.config.maxAmount || "5.00")
-            );
-            this.defaultAmount = parseFloat(
-                String(this.config.defaultAmount || "1.00")
-            );
-            this.activeProjectName = this.config.activeProjectName || null;
+        if (state.status !== "collecting" && previousState.status === "collecting") {
+            step.textContent = "";
+            (
+                this.shadowRoot.querySelector(
+                    ".p2n-contribute"
+                ) as HTMLButtonElement | null
+            )?.focus();
+        }
+    }
 
-            this.selectedAmount = this.defaultAmount;
+    /**
+     * Moves focus into the checkout dialog when it opens, and back to the
+     * contribute button when it closes
+     */
+    private updateCheckoutDialog(
+        state: Pay2NatureState,
+        previousState: Pay2NatureState
+    ): void {
+        if (!this.shadowRoot) return;
 
-            // Generate predefined amounts
-            const step = (this.maxAmount - this.minAmount) / 4;
-            this.predefinedAmounts = [
-                this.minAmount,
-                this.minAmount + step,
-                this.minAmount + step * 2,
-                this.minAmount + step * 3,
-                this.maxAmount,
-            ].map((amount) => Math.round(amount * 100) / 100);
+        if (state.status === "checkout") {
+            (
+                this.shadowRoot.querySelector(
+                    ".p2n-checkout-close"
+                ) as HTMLButtonElement | null
+            )?.focus();
+        } else if (previousState.status === "checkout") {
+            (
+                this.shadowRoot.querySelector(
+                    ".p2n-contribute"
+                ) as HTMLButtonElement | null
+            )?.focus();
+        }
+    }
 
-            this.isLoading = false;
-        } catch (error) {
-            this.isLoading = false;
-            console.error("Failed to fetch widget configuration:", error);
-            throw error;
+    private getThemeStyles(): string {
+        return `
+        :host {
+          ${themeToCss(this.themeTokens)}
         }
+      `;
     }
 
-    private getStyles(): string {
+    private getBaseStyles(): string {
         return `
-      <style>
         :host {
           display: block;
-          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+          font-family: var(--p2n-font-family);
         }
         .pay2nature-widget {
-          border-radius: 8px;
-          border: 1px solid #bbf7d0;
+          border-radius: var(--p2n-radius);
+          border: 1px solid var(--p2n-border);
           padding: 16px;
           margin: 8px 0;
           max-width: 400px;
           box-sizing: border-box;
-          background-color: #f0fdf4;
+          background-color: var(--p2n-background);
+          color: var(--p2n-text);
           position: relative;
         }
         .pay2nature-widget * {
           box-sizing: border-box;
         }
+        .pay2nature-widget.p2n-error-state {
+          border-color: var(--p2n-error-border);
+          background-color: var(--p2n-error-background);
+        }
         .p2n-header {
           display: flex;
           align-items: center;
           margin-bottom: 16px;
         }
+        .p2n-test-badge {
+          margin-inline-start: auto;
+          padding: 2px 8px;
+          border: 1px dashed var(--p2n-error-border);
+          border-radius: 999px;
+          background-color: var(--p2n-error-background);
+          color: var(--p2n-error-text);
+          font-size: 11px;
+          font-weight: bold;
+          letter-spacing: 0.05em;
+        }
         .p2n-logo {
           width: auto;
           height: 3rem;
-          margin-right: 12px;
+          margin-inline-end: 12px;
           object-fit: contain;
           border-radius: 0.5rem;
         }
@@ -274,18 +332,39 @@ export class Pay2NatureWidget {
         .p2n-title {
           font-size: 18px;
           font-weight: bold;
-          color: #166534;
+          color: var(--p2n-title);
         }
         .p2n-subtitle {
           font-size: 12px;
-          color: #6b7280;
+          color: var(--p2n-muted-text);
         }
         .p2n-description {
           font-size: 14px;
-          color: #374151;
+          color: var(--p2n-text);
           margin-bottom: 16px;
           line-height: 1.4;
         }
+        .p2n-status {
+          text-align: center;
+          padding: 20px;
+          color: var(--p2n-text);
+        }
+        .p2n-status-title {
+          margin-bottom: 8px;
+        }
+        .p2n-status-detail {
+          font-size: 12px;
+          color: var(--p2n-muted-text);
+        }
+        .p2n-error-state .p2n-status {
+          color: var(--p2n-error-text);
+        }
+        .p2n-error-state .p2n-status-title {
+          font-weight: 500;
+        }
+        .p2n-error-state .p2n-status-detail {
+          color: var(--p2n-error-detail);
+        }
         .p2n-amounts {
           display: flex;
           flex-wrap: wrap;
@@ -293,24 +372,116 @@ export class Pay2NatureWidget {
           align-items: center;
           margin-bottom: 16px;
         }
+        .p2n-presets {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 8px;
+        }
         .p2n-amount {
           height: 32px;
           padding: 8px 12px;
           font-size: 12px;
-          border: 1px solid #d1d5db;
-          border-radius: 6px;
-          background-color: white;
+          border: 1px solid var(--p2n-control-border);
+          border-radius: var(--p2n-control-radius);
+          background-color: var(--p2n-surface);
+          color: var(--p2n-text);
           cursor: pointer;
           transition: all 0.2s;
         }
         .p2n-amount:hover {
-          border-color: #16a34a;
-          color: #16a34a;
+          border-color: var(--p2n-primary);
+          color: var(--p2n-primary);
         }
         .p2n-amount.selected {
-          background-color: #16a34a;
-          color: white;
-          border-color: #16a34a;
+          background-color: var(--p2n-primary);
+          color: var(--p2n-on-primary);
+          border-color: var(--p2n-primary);
+        }
+        .p2n-projects {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+          margin-bottom: 16px;
+        }
+        .p2n-projects-label {
+          font-size: 0.875rem;
+          color: var(--p2n-muted-text);
+        }
+        .p2n-project {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+          padding: 8px 12px;
+          font: inherit;
+          text-align: start;
+          border: 1px solid var(--p2n-control-border);
+          border-radius: var(--p2n-control-radius);
+          background-color: var(--p2n-surface);
+          color: var(--p2n-text);
+          cursor: pointer;
+        }
+        .p2n-project.selected {
+          border-color: var(--p2n-primary);
+          box-shadow: inset 0 0 0 1px var(--p2n-primary);
+        }
+        .p2n-project-image {
+          flex-shrink: 0;
+          width: 40px;
+          height: 40px;
+          object-fit: cover;
+          border-radius: var(--p2n-control-radius);
+        }
+        .p2n-project-text {
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+        }
+        .p2n-project-name {
+          font-size: 14px;
+          font-weight: 600;
+        }
+        .p2n-project-description {
+          font-size: 12px;
+          color: var(--p2n-muted-text);
+        }
+        .p2n-project-select {
+          height: 32px;
+          padding: 4px 8px;
+          font-size: 14px;
+          border: 1px solid var(--p2n-control-border);
+          border-radius: var(--p2n-control-radius);
+          background-color: var(--p2n-surface);
+          color: var(--p2n-text);
+        }
+        .p2n-methods,
+        .p2n-frequencies {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 8px;
+          align-items: center;
+          margin-bottom: 16px;
+        }
+        .p2n-methods-label,
+        .p2n-frequencies-label {
+          font-size: 0.875rem;
+          color: var(--p2n-muted-text);
+        }
+        .p2n-method,
+        .p2n-frequency {
+          height: 32px;
+          padding: 8px 12px;
+          font-size: 12px;
+          border: 1px solid var(--p2n-control-border);
+          border-radius: var(--p2n-control-radius);
+          background-color: var(--p2n-surface);
+          color: var(--p2n-text);
+          cursor: pointer;
+        }
+        .p2n-method.selected,
+        .p2n-frequency.selected {
+          border-color: var(--p2n-primary);
+          color: var(--p2n-primary);
+          font-weight: 600;
         }
         .p2n-custom-wrapper {
           display: flex;
@@ -319,28 +490,32 @@ export class Pay2NatureWidget {
         }
         .p2n-custom-label {
           font-size: 0.875rem;
-          color: #6b7280;
+          color: var(--p2n-muted-text);
         }
         .p2n-custom {
           width: 80px;
           height: 32px;
           padding: 4px 8px;
           font-size: 12px;
-          border: 1px solid #d1d5db;
-          border-radius: 6px;
-          outline: none;
+          border: 1px solid var(--p2n-control-border);
+          border-radius: var(--p2n-control-radius);
+          background-color: var(--p2n-surface);
+          color: var(--p2n-text);
         }
         .p2n-custom:focus {
-          border-color: #16a34a;
+          border-color: var(--p2n-primary);
+        }
+        .p2n-custom[aria-invalid="true"] {
+          border-color: var(--p2n-error);
         }
         .p2n-contribute {
           width: 100%;
           padding: 12px;
           font-size: 14px;
-          background-color: #16a34a;
-          color: white;
+          background-color: var(--p2n-primary);
+          color: var(--p2n-on-primary);
           border: none;
-          border-radius: 6px;
+          border-radius: var(--p2n-control-radius);
           cursor: pointer;
           display: flex;
           align-items: center;
@@ -349,495 +524,1211 @@ export class Pay2NatureWidget {
           transition: background-color 0.2s;
         }
         .p2n-contribute:hover {
-          background-color: #15803d;
+          background-color: var(--p2n-primary-hover);
         }
         .p2n-contribute:disabled {
-          background-color: #9ca3af;
+          background-color: var(--p2n-disabled);
           cursor: not-allowed;
         }
-      </style>
+        .p2n-contribute.p2n-success {
+          background-color: var(--p2n-success);
+        }
+        .p2n-contribute.p2n-failed {
+          background-color: var(--p2n-error);
+        }
+        .p2n-payment-status {
+          margin-top: 8px;
+          font-size: 12px;
+          text-align: center;
+          color: var(--p2n-muted-text);
+        }
+        .p2n-payment-status.p2n-failed {
+          color: var(--p2n-error-text);
+        }
+        .p2n-confirmation {
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          gap: 8px;
+        }
+        .p2n-thank-you {
+          font-size: 16px;
+          font-weight: 600;
+          color: var(--p2n-success);
+        }
+        .p2n-receipt-link {
+          font-size: 12px;
+          color: var(--p2n-primary);
+        }
+        .p2n-contribute-again {
+          padding: 8px 12px;
+          font-size: 12px;
+          border: 1px solid var(--p2n-control-border);
+          border-radius: var(--p2n-control-radius);
+          background-color: var(--p2n-surface);
+          color: var(--p2n-text);
+          cursor: pointer;
+        }
+        .p2n-checkout {
+          position: fixed;
+          inset: 0;
+          z-index: 2147483000;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          padding: 16px;
+          background-color: rgba(0, 0, 0, 0.5);
+        }
+        .p2n-checkout-dialog {
+          display: flex;
+          flex-direction: column;
+          width: 100%;
+          max-width: 480px;
+          height: 100%;
+          max-height: 720px;
+          overflow: hidden;
+          border-radius: var(--p2n-radius);
+          background-color: var(--p2n-surface);
+          color: var(--p2n-text);
+        }
+        .p2n-checkout-header {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          padding: 8px 8px 8px 16px;
+          border-bottom: 1px solid var(--p2n-border);
+          font-weight: 600;
+        }
+        .p2n-checkout-close {
+          width: 32px;
+          height: 32px;
+          font-size: 20px;
+          line-height: 1;
+          border: none;
+          border-radius: var(--p2n-control-radius);
+          background: none;
+          color: var(--p2n-text);
+          cursor: pointer;
+        }
+        .p2n-checkout-frame {
+          flex: 1;
+          width: 100%;
+          border: none;
+        }
+        .p2n-fallback-link {
+          padding: 8px;
+          font-size: 12px;
+          text-align: center;
+          color: var(--p2n-primary);
+        }
+        .p2n-toggle {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+          margin-bottom: 16px;
+          font-size: 14px;
+          cursor: pointer;
+        }
+        .p2n-toggle-input {
+          position: absolute;
+          opacity: 0;
+          width: 1px;
+          height: 1px;
+          margin: 0;
+        }
+        .p2n-toggle-track {
+          position: relative;
+          flex-shrink: 0;
+          width: 36px;
+          height: 20px;
+          border-radius: 10px;
+          background-color: var(--p2n-control-border);
+          transition: background-color 0.2s;
+        }
+        .p2n-toggle-track::after {
+          content: "";
+          position: absolute;
+          top: 2px;
+          inset-inline-start: 2px;
+          width: 16px;
+          height: 16px;
+          border-radius: 50%;
+          background-color: var(--p2n-surface);
+          transition: inset-inline-start 0.2s;
+        }
+        .p2n-toggle-input:checked + .p2n-toggle-track {
+          background-color: var(--p2n-primary);
+        }
+        .p2n-toggle-input:checked + .p2n-toggle-track::after {
+          inset-inline-start: 18px;
+        }
+        .p2n-toggle-input:focus-visible + .p2n-toggle-track {
+          outline: 2px solid var(--p2n-primary);
+          outline-offset: 2px;
+        }
+        .pay2nature-widget :focus-visible {
+          outline: 2px solid var(--p2n-primary);
+          outline-offset: 2px;
+        }
+        .p2n-sr-only {
+          position: absolute;
+          width: 1px;
+          height: 1px;
+          padding: 0;
+          margin: -1px;
+          overflow: hidden;
+          clip: rect(0, 0, 0, 0);
+          white-space: nowrap;
+          border: 0;
+        }
+        @media (prefers-reduced-motion: reduce) {
+          .pay2nature-widget * {
+            transition: none !important;
+            animation: none !important;
+          }
+        }
     `;
     }
 
-    private renderLoading(): void {
-        if (!this.shadowRoot) return;
+    private getDiagnosticsStyles(): string {
+        return `
+        :host {
+          position: relative;
+        }
+        .p2n-diagnostics {
+          position: absolute;
+          top: 4px;
+          inset-inline-end: 4px;
+          z-index: 1;
+          max-width: 300px;
+          padding: 6px 8px;
+          border-radius: 6px;
+          background-color: rgba(17, 24, 39, 0.92);
+          color: #f9fafb;
+          font: 11px/1.4 ui-monospace, SFMono-Regular, Menlo, Consolas, monospace;
+        }
+        .p2n-diagnostics-toggle {
+          padding: 0;
+          border: 0;
+          background: none;
+          color: inherit;
+          font: inherit;
+          font-weight: 600;
+          cursor: pointer;
+        }
+        .p2n-diagnostics-body {
+          margin: 4px 0 0;
+        }
+        .p2n-diagnostics-body dt {
+          opacity: 0.7;
+        }
+        .p2n-diagnostics-body dd {
+          margin: 0 0 4px;
+          overflow-wrap: anywhere;
+        }
+        .p2n-diagnostics-body ol {
+          margin: 0;
+          padding-inline-start: 16px;
+        }
+    `;
+    }
 
-        this.shadowRoot.innerHTML = `
-      ${this.getStyles()}
-      <div class="pay2nature-widget">
-        <div class="p2n-header">
-          <div class="p2n-logo">🌱</div>
+    private renderLoading(): SafeHtml {
+        return html`
+      <div class="pay2nature-widget" part="container" ${this.getLocaleAttributes()}>
+        <div class="p2n-header" part="header">
+          <div class="p2n-logo" aria-hidden="true">🌱</div>
           <div class="p2n-title">Pay2Nature</div>
+          ${this.renderEnvironmentBadge()}
         </div>
-        <div style="text-align: center; padding: 20px; color: #374151;">
-          <div style="margin-bottom: 8px;">Loading widget configuration...</div>
-          <div style="font-size: 12px; color: #6b7280;">Please wait</div>
+        <div class="p2n-status" role="status">
+          <div class="p2n-status-title">${this.t("loadingTitle")}</div>
+          <div class="p2n-status-detail">${this.t("loadingDetail")}</div>
         </div>
       </div>
     `;
     }
 
-    private renderError(message: string): void {
-        if (!this.shadowRoot) return;
-
-        this.shadowRoot.innerHTML = `
-      ${this.getStyles()}
-      <div class="pay2nature-widget" style="border-color: #fca5a5; background-color: #fef2f2;">
-        <div class="p2n-header">
-          <div class="p2n-logo">🌱</div>
+    private renderError(message: string): SafeHtml {
+        return html`
+      <div class="pay2nature-widget p2n-error-state" part="container" ${this.getLocaleAttributes()}>
+        <div class="p2n-header" part="header">
+          <div class="p2n-logo" aria-hidden="true">🌱</div>
           <div class="p2n-title">Pay2Nature</div>
+          ${this.renderEnvironmentBadge()}
         </div>
-        <div style="text-align: center; padding: 20px; color: #dc2626;">
-          <div style="margin-bottom: 8px; font-weight: 500;">Configuration Error</div>
-          <div style="font-size: 12px; color: #7f1d1d;">${message}</div>
+        <div class="p2n-status" role="alert">
+          <div class="p2n-status-title">${this.t("errorTitle")}</div>
+          <div class="p2n-status-detail">${message}</div>
         </div>
       </div>
     `;
     }
 
-    private render(): void {
-        if (!this.shadowRoot) return;
-
-        const currentAmount = this.isCustom
-            ? parseFloat(this.customAmount) || 0
-            : this.selectedAmount;
-
-        this.shadowRoot.innerHTML = `
-      ${this.getStyles()}
-      <div class="pay2nature-widget">
-        <div class="p2n-header">
-          <img src="https://storage.googleapis.com/cdn-pay2nature/logo-short.jpg" alt="Pay2Nature" class="p2n-logo" />
+    private render(state: Pay2NatureState): SafeHtml {
+        const isOptIn = state.mode === "opt-in";
+        const isCollecting = state.status === "collecting";
+        const isReturn =
+            state.status === "confirming" || state.status === "confirmed";
+        const selectedAmountIndex = state.isCustom
+            ? -1
+            : state.predefinedAmounts.indexOf(state.selectedAmount);
+
+        return html`
+      <div class="pay2nature-widget" part="container" role="region" aria-labelledby="p2n-title" ${this.getLocaleAttributes()}>
+        <div class="p2n-header" part="header">
+          <img src="https://storage.googleapis.com/cdn-pay2nature/logo-short.jpg" alt="" class="p2n-logo" />
           <div class="p2n-brand">
-            <div class="p2n-title">Pay2Nature</div>
-            <div class="p2n-subtitle">Powered by Indelible</div>
+            <div class="p2n-title" id="p2n-title">Pay2Nature</div>
+            <div class="p2n-subtitle">${this.t("subtitle")}</div>
           </div>
+          ${this.renderEnvironmentBadge()}
         </div>
-        <p class="p2n-description">
-          Add a small contribution to verified nature projects. Your contribution goes directly to conservation efforts${this.activeProjectName ? ` in project <strong>${this.activeProjectName}</strong>` : ""}.
-        </p>
-        <div class="p2n-content">
-          <div class="p2n-amounts">
-            ${this.predefinedAmounts
-                .map(
-                    (amount) => `
-              <button class="p2n-amount ${this.selectedAmount === amount && !this.isCustom ? "selected" : ""}" data-amount="${amount}">
+        <p class="p2n-description">${this.renderDescription(state)}</p>
+        <div class="p2n-content" ${(isCollecting || isReturn) && "hidden"}>
+          ${isOptIn && this.renderOptInToggle(state)}
+          ${!(isOptIn && !state.isEnabled) && this.renderProjects(state)}
+          <div class="p2n-amounts" data-key="amounts" id="p2n-amounts" ${isOptIn && !state.isEnabled && "hidden"}>
+            <div class="p2n-presets" role="radiogroup" aria-label="${this.t("amountLabel")}">
+              ${state.predefinedAmounts.map(
+                  (amount, index) => html`
+              <button type="button" ${this.getRadioAttributes("p2n-amount", "amount-button", index, selectedAmountIndex)} data-amount="${amount}">
                 ${this.formatCurrency(amount)}
               </button>
             `
-                )
-                .join("")}
+              )}
+            </div>
             <div class="p2n-custom-wrapper">
-              <span class="p2n-custom-label">Custom:</span>
-              <input type="number" class="p2n-custom" placeholder="0.00"
-                     min="${this.minAmount}" step="0.1"
-                     value="${this.customAmount}">
+              <label class="p2n-custom-label" for="p2n-custom">${this.t("customLabel")}</label>
+              <input type="number" id="p2n-custom" class="p2n-custom" part="custom-input" placeholder="0.00"
+                     inputmode="decimal" min="${state.minAmount}" step="0.1"
+                     aria-describedby="p2n-amount-hint"
+                     aria-invalid="${String(state.isCustom && !state.isValid)}"
+                     value="${state.customAmount}">
             </div>
+            <div class="p2n-sr-only" id="p2n-amount-hint">${this.t("minimum", {
+                amount: this.formatCurrency(state.minAmount),
+            })}</div>
           </div>
-          <button class="p2n-contribute" ${!this.isEnabled || currentAmount < this.minAmount ? "disabled" : ""}>
-            Contribute ${this.currencySymbol}${currentAmount.toFixed(2)}
-          </button>
+          ${!isOptIn && this.renderPaymentMethods(state)}
+          ${!isOptIn && this.renderFrequencies(state)}
+          ${!isOptIn && this.renderContributeButton(state)}
         </div>
+        ${isReturn && this.renderConfirmation(state)}
+        <div class="p2n-step" data-key="step" data-p2n-unmanaged ${!isCollecting && "hidden"}></div>
+        <div class="p2n-sr-only p2n-announcer" data-key="announcer" data-p2n-unmanaged role="status" aria-live="polite" aria-atomic="true"></div>
+        ${state.status === "checkout" && state.checkoutUrl && this.renderCheckoutDialog(state.checkoutUrl)}
       </div>
     `;
-
-        this.attachEventListeners();
     }
 
-    private attachEventListeners(): void {
-        if (!this.shadowRoot) return;
-
-        const amountButtons = this.shadowRoot.querySelectorAll(".p2n-amount");
-        const customInput = this.shadowRoot.querySelector(
-            ".p2n-custom"
-        ) as HTMLInputElement;
-        const contributeButton = this.shadowRoot.querySelector(
-            ".p2n-contribute"
-        ) as HTMLButtonElement;
-
-        if (!customInput || !contributeButton) return;
-
-        // Amount selection
-        amountButtons.forEach((button) => {
-            button.addEventListener("click", (e) => {
-                const amount = parseFloat(
-                    (e.target as HTMLElement).dataset.amount || "0"
-                );
-                this.selectAmount(amount, false);
-                this.customAmount = "";
-                if (customInput) customInput.value = "";
-                this.updateDisplayedAmount();
-                this.updatePresetButtonStates();
-            });
-        });
+    // Sandbox and offline widgets take no real payments; say so
+    private renderEnvironmentBadge(): SafeHtml | null {
+        const { environment } = this.controller.getState();
+        if (environment === "live") return null;
 
-        // Custom amount input
-        customInput.addEventListener("input", (e) => {
-            const value = (e.target as HTMLInputElement).value;
-            this.customAmount = value;
-            const numValue = parseFloat(value);
+        return html`
+          <span class="p2n-test-badge" part="test-badge" data-environment="${environment}" title="${this.t("testBadgeLabel")}">${this.t("testBadge")}</span>
+        `;
+    }
 
-            if (!isNaN(numValue) && numValue >= this.minAmount) {
-                this.selectAmount(numValue, true);
-            } else {
-                this.isCustom = value !== "";
-            }
+    /**
+     * Shown when the donor returns from the payment page: a confirming
+     * message, then the thank-you with a link to the receipt
+     */
+    private renderConfirmation(state: Pay2NatureState): SafeHtml {
+        const confirmation = state.confirmation;
+        if (state.status === "confirming" || !confirmation) {
+            return html`
+          <div class="p2n-status p2n-confirmation" part="confirmation" data-key="confirmation" aria-busy="true">
+            <div class="p2n-status-title">${this.t("confirmingPayment")}</div>
+          </div>
+        `;
+        }
 
-            this.updateDisplayedAmount();
-            this.updatePresetButtonStates();
-        });
+        return html`
+          <div class="p2n-status p2n-confirmation" part="confirmation" data-key="confirmation">
+            <div class="p2n-status-title p2n-thank-you">${this.t("thankYouTitle")}</div>
+            <div class="p2n-status-detail">${this.getThankYouDetail(confirmation)}</div>
+            ${confirmation.receiptUrl && html`<a class="p2n-receipt-link" part="receipt-link" href="${confirmation.receiptUrl}" target="_blank" rel="noopener noreferrer">${this.t("viewReceipt")}</a>`}
+            <button type="button" class="p2n-contribute-again" part="contribute-again">${this.t("contributeAgain")}</button>
+          </div>
+        `;
+    }
 
-        // Contribute button
-        contributeButton.addEventListener("click", (e) => {
-            e.preventDefault();
-            if (!this.isProcessing) {
-                this.handleContribution();
-            }
-        });
+    private getThankYouDetail(confirmation: ConfirmedContribution): string {
+        const amount = this.formatCurrency(confirmation.amount);
+        if (confirmation.status !== "approved") {
+            return this.t("thankYouPendingDetail", { amount });
+        }
+        return confirmation.projectName
+            ? this.t("thankYouDetailWithProject", {
+                  amount,
+                  project: confirmation.projectName,
+              })
+            : this.t("thankYouDetail", { amount });
     }
 
-    private selectAmount(amount: number, isCustom: boolean): void {
-        this.selectedAmount = amount;
-        this.isCustom = isCustom;
+    /**
+     * The "modal" presentation: the payment page in a dialog over the host
+     * page, with a link to open it in a new tab if it can't be framed
+     */
+    private renderCheckoutDialog(checkoutUrl: string): SafeHtml {
+        return html`
+          <div class="p2n-checkout" part="checkout" data-key="checkout">
+            <div class="p2n-checkout-dialog" part="checkout-dialog" role="dialog" aria-modal="true" aria-labelledby="p2n-checkout-title">
+              <div class="p2n-checkout-header">
+                <span id="p2n-checkout-title">${this.t("checkoutTitle")}</span>
+                <button type="button" class="p2n-checkout-close" part="checkout-close" aria-label="${this.t("closeCheckout")}"><span aria-hidden="true">×</span></button>
+              </div>
+              <iframe class="p2n-checkout-frame" src="${checkoutUrl}" title="${this.t("checkoutTitle")}" allow="payment"></iframe>
+              <a class="p2n-fallback-link" part="fallback-link" href="${checkoutUrl}" target="_blank" rel="noopener noreferrer">${this.t("checkoutFallback")}</a>
+            </div>
+          </div>
+        `;
     }
 
-    private formatCurrency(amount: number): string {
-        return `${this.currencySymbol}${amount.toFixed(2)}`;
+    /**
+     * In round-up mode the copy says what the order will be rounded to
+     */
+    private renderDescription(state: Pay2NatureState): SafeHtml | string {
+        const project = state.activeProjectName
+            ? html`<strong>${state.activeProjectName}</strong>`
+            : null;
+
+        if (state.amountStrategy === "round-up" && state.orderTotal !== null) {
+            const params = {
+                orderTotal: this.formatCurrency(state.orderTotal),
+                total: html`<strong>${this.formatCurrency(
+                    Math.round((state.orderTotal + state.amount) * 100) / 100
+                )}</strong>`,
+            };
+            return project
+                ? this.tHtml("roundUpDescriptionWithProject", { ...params, project })
+                : this.tHtml("roundUpDescription", params);
+        }
+
+        return project
+            ? this.tHtml("descriptionWithProject", { project })
+            : this.t("description");
     }
 
-    private updateDisplayedAmount(): void {
-        if (!this.shadowRoot) return;
+    /**
+     * Opt-in mode: a switch adds the contribution to the host's checkout
+     * instead of a contribute button taking the payment
+     */
+    private renderOptInToggle(state: Pay2NatureState): SafeHtml {
+        return html`
+          <label class="p2n-toggle" part="toggle" data-key="toggle">
+            <input type="checkbox" class="p2n-toggle-input" role="switch" aria-controls="p2n-amounts" ${state.isEnabled && "checked"}>
+            <span class="p2n-toggle-track" aria-hidden="true"></span>
+            <span class="p2n-toggle-label">${this.t("optInLabel", {
+                amount: this.formatCurrency(state.amount),
+            })}</span>
+          </label>
+        `;
+    }
 
-        const currentAmount = this.isCustom
-            ? parseFloat(this.customAmount) || 0
-            : this.selectedAmount;
-
-        const contributeButton = this.shadowRoot.querySelector(
-            ".p2n-contribute"
-        ) as HTMLButtonElement;
-        if (contributeButton) {
-            const isValidAmount = currentAmount >= this.minAmount;
-            contributeButton.disabled = !this.isEnabled || !isValidAmount;
-
-            if (isValidAmount) {
-                contributeButton.innerHTML = `Contribute ${this.formatCurrency(currentAmount)}`;
-            } else {
-                contributeButton.innerHTML = `Minimum ${this.formatCurrency(this.minAmount)}`;
-            }
+    /**
+     * Lets donors choose where their contribution goes when the widget
+     * offers several projects
+     */
+    private renderProjects(state: Pay2NatureState): SafeHtml | null {
+        if (state.projects.length < 2) return null;
+
+        const useCards =
+            this.projectPicker === "cards" ||
+            (this.projectPicker === "auto" &&
+                state.projects.length <= MAX_PROJECT_CARDS);
+
+        if (!useCards) {
+            return html`
+          <div class="p2n-projects" data-key="projects-dropdown">
+            <label class="p2n-projects-label" for="p2n-project-select">${this.t("projectLabel")}</label>
+            <select id="p2n-project-select" class="p2n-project-select" part="project-select">
+              ${state.projects.map(
+                  (project) => html`
+              <option value="${project.id}" ${project.id === state.projectId && "selected"}>${project.name}</option>
+            `
+              )}
+            </select>
+          </div>
+        `;
         }
+
+        const selectedIndex = state.projects.findIndex(
+            (project) => project.id === state.projectId
+        );
+
+        return html`
+          <div class="p2n-projects" data-key="projects-cards" role="radiogroup" aria-labelledby="p2n-projects-label">
+            <span class="p2n-projects-label" id="p2n-projects-label">${this.t("projectLabel")}</span>
+            ${state.projects.map(
+                (project, index) => html`
+              <button type="button" ${this.getRadioAttributes("p2n-project", "project-card", index, selectedIndex)} data-project="${project.id}">
+                ${project.imageUrl && isHttpUrl(project.imageUrl) && html`<img class="p2n-project-image" src="${project.imageUrl}" alt="">`}
+                <span class="p2n-project-text">
+                  <span class="p2n-project-name">${project.name}</span>
+                  ${project.description && html`<span class="p2n-project-description">${project.description}</span>`}
+                </span>
+              </button>
+            `
+            )}
+          </div>
+        `;
     }
 
-    private updatePresetButtonStates(): void {
-        if (!this.shadowRoot) return;
+    private renderPaymentMethods(state: Pay2NatureState): SafeHtml | null {
+        if (state.paymentMethods.length < 2) return null;
 
-        const amountButtons = this.shadowRoot.querySelectorAll(".p2n-amount");
-        amountButtons.forEach((button) => {
-            const amount = parseFloat(
-                button.getAttribute("data-amount") || "0"
-            );
-            if (amount === this.selectedAmount && !this.isCustom) {
-                button.classList.add("selected");
-            } else {
-                button.classList.remove("selected");
-            }
-        });
-    }
+        const selectedIndex = state.paymentMethods.findIndex(
+            (method) => method.id === state.paymentMethod
+        );
 
-    private async handleContribution(): Promise<void> {
-        if (this.isProcessing) return;
+        return html`
+          <div class="p2n-methods" data-key="methods" role="radiogroup" aria-labelledby="p2n-methods-label">
+            <span class="p2n-methods-label" id="p2n-methods-label">${this.t("paymentMethodLabel")}</span>
+            ${state.paymentMethods.map(
+                (method, index) => html`
+              <button type="button" ${this.getRadioAttributes("p2n-method", "method-button", index, selectedIndex)} data-method="${method.id}">
+                ${this.getPaymentMethodLabel(method)}
+              </button>
+            `
+            )}
+          </div>
+        `;
+    }
 
-        const amount = this.isCustom
-            ? parseFloat(this.customAmount)
-            : this.selectedAmount;
+    /**
+     * One-time or monthly, when the selected payment method can set up
+     * monthly contributions
+     */
+    private renderFrequencies(state: Pay2NatureState): SafeHtml | null {
+        if (state.frequencies.length < 2) return null;
+
+        const selectedIndex = state.frequencies.indexOf(state.frequency);
+
+        return html`
+          <div class="p2n-frequencies" data-key="frequencies" role="radiogroup" aria-labelledby="p2n-frequencies-label">
+            <span class="p2n-frequencies-label" id="p2n-frequencies-label">${this.t("frequencyLabel")}</span>
+            ${state.frequencies.map(
+                (frequency, index) => html`
+              <button type="button" ${this.getRadioAttributes("p2n-frequency", "frequency-button", index, selectedIndex)} data-frequency="${frequency}">
+                ${this.t(frequency === "monthly" ? "frequencyMonthly" : "frequencyOneTime")}
+              </button>
+            `
+            )}
+          </div>
+        `;
+    }
 
-        if (amount < this.minAmount) {
-            this.onError(
-                new Error(
-                    `Amount must be at least ${this.formatCurrency(this.minAmount)}`
-                )
-            );
-            return;
-        }
+    /**
+     * Radio semantics for a preset amount, payment method or frequency button. The
+     * checked radio, or the first one when none is checked, is the group's
+     * single tab stop.
+     */
+    private getRadioAttributes(
+        className: string,
+        part: string,
+        index: number,
+        selectedIndex: number
+    ): SafeHtml {
+        const checked = index === selectedIndex;
+        const tabStop = selectedIndex === -1 ? 0 : selectedIndex;
+
+        return html`class="${className}${checked ? " selected" : ""}" part="${checked ? `${part} ${part}-selected` : part}" role="radio" aria-checked="${String(checked)}" tabindex="${index === tabStop ? "0" : "-1"}"`;
+    }
 
-        if (this.config?.currency === "GHS") {
-            // Mobile money flow
-            if (this.mobileMoneyModal) {
-                this.mobileMoneyModal.show({
-                    showAnonymous: true,
-                    anonymousChecked: this.mobileMoneyAnonymous,
-                    nameValue: this.mobileMoneyName,
-                    numberValue: this.mobileMoneyNumber,
-                    providerValue: this.mobileMoneyProvider,
-                });
-                this.setupMobileMoneyModalCallbacks();
-            } else {
-                console.error("Mobile money modal not loaded yet");
+    private renderContributeButton(state: Pay2NatureState): SafeHtml {
+        const isFailed =
+            state.status === "error" ||
+            state.status === "failed" ||
+            state.status === "expired";
+        const isSuccess =
+            state.status === "redirecting" || state.status === "approved";
+        const isBusy = state.status === "processing" || state.status === "pending";
+
+        let label: string;
+        let disabled = true;
+        let statusLine = "";
+
+        switch (state.status) {
+            case "processing":
+                label = this.t("processing");
+                break;
+            case "redirecting": {
+                const projectName = state.lastContribution?.projectName;
+                label = projectName
+                    ? this.t("openingPaymentForProject", { project: projectName })
+                    : this.t("openingPayment");
+                break;
             }
-            return;
-        } else {
-            // Stripe flow
-            await this.stripeCreatePaymentLink(amount);
+            case "blocked":
+                // The donor's click on the button is allowed to open the window
+                disabled = false;
+                label = this.t("openPaymentPage");
+                statusLine = this.t("popupBlocked");
+                break;
+            case "error":
+                disabled = false;
+                label = this.t("paymentError");
+                break;
+            case "pending":
+                label = this.t("paymentPending");
+                statusLine = this.t("paymentPendingDetail");
+                break;
+            case "approved":
+                label = this.t("paymentApproved");
+                break;
+            case "failed":
+            case "expired":
+                disabled = false;
+                label = this.t(
+                    state.status === "failed" ? "paymentFailed" : "paymentExpired"
+                );
+                statusLine = state.statusMessage || "";
+                break;
+            default:
+                disabled = !state.isEnabled || !state.isValid;
+                label = state.isValid
+                    ? this.t(
+                          state.frequency === "monthly"
+                              ? "contributeMonthly"
+                              : "contribute",
+                          { amount: this.formatCurrency(state.amount) }
+                      )
+                    : this.t("minimum", {
+                          amount: this.formatCurrency(state.minAmount),
+                      });
         }
+
+        return html`
+          <button type="button" class="p2n-contribute${isSuccess ? " p2n-success" : ""}${isFailed ? " p2n-failed" : ""}" part="contribute-button" data-key="contribute" aria-busy="${String(isBusy)}" ${disabled && "disabled"}>${label}</button>
+          <div class="p2n-payment-status${isFailed ? " p2n-failed" : ""}" data-key="payment-status" ${!statusLine && "hidden"}>${statusLine}</div>
+        `;
     }
 
-    private async stripeCreatePaymentLink(amount: number): Promise<void> {
-        try {
-            this.isProcessing = true;
+    private getPaymentMethodLabel(method: PaymentMethodOption): string {
+        if (method.id === "stripe") return this.t("paymentMethodStripe");
+        if (method.id === "mobile-money") return this.t("paymentMethodMobileMoney");
+        return method.label;
+    }
 
-            if (!this.shadowRoot) return;
+    /**
+     * Listens on the shadow root once; rendering never re-binds handlers
+     */
+    private attachEventListeners(): void {
+        const shadowRoot = this.shadowRoot;
+        if (!shadowRoot) return;
+
+        // Ignore events from a provider's step, e.g. the mobile money form
+        const getTarget = (event: Event): Element | null => {
+            const target = event.target as Element | null;
+            return target && target.closest && !target.closest(".p2n-step")
+                ? target
+                : null;
+        };
 
-            const contributeButton = this.shadowRoot.querySelector(
-                ".p2n-contribute"
-            ) as HTMLButtonElement;
-            const originalHTML = contributeButton?.innerHTML || "";
-            if (contributeButton) {
-                contributeButton.disabled = true;
-                contributeButton.innerHTML = "Processing...";
-            }
+        const onClick = (event: Event) => {
+            const target = getTarget(event);
+            if (!target) return;
 
-            const response = await fetch(
-                `${this.baseUrl}/api/widget/${this.widgetToken}/stripe/create-payment-link`,
-                {
-                    method: "POST",
-                    headers: {
-                        "Content-Type": "application/json",
-                    },
-                    body: JSON.stringify({ amount }),
-                }
-            );
+            const amountButton = target.closest<HTMLElement>(".p2n-amount");
+            const methodButton = target.closest<HTMLElement>(".p2n-method");
+            const projectButton = target.closest<HTMLElement>(".p2n-project");
+            const frequencyButton = target.closest<HTMLElement>(".p2n-frequency");
 
-            if (!response.ok) {
-                const errorData = await response.json();
-                throw new Error(
-                    errorData.message ||
-                        `HTTP ${response.status}: ${response.statusText}`
+            if (amountButton) {
+                this.controller.selectAmount(
+                    parseFloat(amountButton.dataset.amount || "0")
                 );
+            } else if (methodButton) {
+                if (methodButton.dataset.method) {
+                    this.controller.selectPaymentMethod(methodButton.dataset.method);
+                }
+            } else if (projectButton) {
+                if (projectButton.dataset.project) {
+                    this.controller.selectProject(projectButton.dataset.project);
+                }
+            } else if (frequencyButton) {
+                if (frequencyButton.dataset.frequency) {
+                    this.controller.selectFrequency(
+                        frequencyButton.dataset.frequency as ContributionFrequency
+                    );
+                }
+            } else if (target.closest(".p2n-contribute-again")) {
+                this.controller.resetStatus();
+                (
+                    shadowRoot.querySelector(
+                        ".p2n-contribute"
+                    ) as HTMLButtonElement | null
+                )?.focus();
+            } else if (target.closest(".p2n-checkout-close")) {
+                this.controller.closeCheckout();
+            } else if (target.closest(".p2n-diagnostics-toggle")) {
+                this.isDiagnosticsOpen = !this.isDiagnosticsOpen;
+                this.renderDiagnostics();
+            } else if (target.closest(".p2n-fallback-link")) {
+                event.preventDefault();
+                this.controller.openPaymentPage();
+            } else if (target.closest(".p2n-contribute")) {
+                event.preventDefault();
+                const state = this.controller.getState();
+                if (state.status === "blocked") {
+                    this.controller.openPaymentPage();
+                } else if (!state.isProcessing) {
+                    this.handleContribution();
+                }
             }
+        };
 
-            const result = await response.json();
-
-            window.open(result.paymentUrl, "_blank");
+        const onChange = (event: Event) => {
+            const target = getTarget(event);
+            if (target && target.matches(".p2n-toggle-input")) {
+                this.controller.setEnabled((target as HTMLInputElement).checked);
+            } else if (target && target.matches(".p2n-project-select")) {
+                this.controller.selectProject((target as HTMLSelectElement).value);
+            }
+        };
 
-            this.onContribution({
-                amount,
-                currency: this.currency,
-                paymentUrl: result.paymentUrl,
-                projectName: result.projectName,
-            });
+        const onInput = (event: Event) => {
+            const target = getTarget(event);
+            if (target && target.matches(".p2n-custom")) {
+                this.controller.setCustomAmount((target as HTMLInputElement).value);
+            }
+        };
 
-            if (contributeButton) {
-                const successMessage = result.projectName
-                    ? `✓ Opening payment for ${result.projectName}...`
-                    : `✓ Opening payment...`;
-                contributeButton.innerHTML = successMessage;
-                contributeButton.style.backgroundColor = "#10b981";
-
-                setTimeout(() => {
-                    this.isProcessing = false;
-                    if (contributeButton) {
-                        contributeButton.disabled = false;
-                        contributeButton.innerHTML = originalHTML;
-                        contributeButton.style.backgroundColor = "";
-                    }
-                }, 3000);
+        // Arrow-key navigation within the amount and method radio groups
+        const onKeydown = (event: Event) => {
+            const target = getTarget(event);
+            const dialog = target?.closest<HTMLElement>(".p2n-checkout-dialog");
+            if (dialog) {
+                this.handleDialogKeydown(event as KeyboardEvent, dialog);
+                return;
             }
-        } catch (error) {
-            console.error("Pay2Nature contribution error:", error);
-            this.onError(
-                error instanceof Error ? error : new Error(String(error))
-            );
+            const group = target?.closest<HTMLElement>("[role=radiogroup]");
+            if (group) {
+                this.handleRadioGroupKeydown(event as KeyboardEvent, group);
+            }
+        };
 
-            this.isProcessing = false;
+        shadowRoot.addEventListener("click", onClick);
+        shadowRoot.addEventListener("change", onChange);
+        shadowRoot.addEventListener("input", onInput);
+        shadowRoot.addEventListener("keydown", onKeydown);
 
-            if (this.shadowRoot) {
-                const contributeButton = this.shadowRoot.querySelector(
-                    ".p2n-contribute"
-                ) as HTMLButtonElement;
-                if (contributeButton) {
-                    contributeButton.disabled = false;
-                    contributeButton.innerHTML = "Payment Error - Try Again";
-                    contributeButton.style.backgroundColor = "#ef4444";
-
-                    setTimeout(() => {
-                        contributeButton.style.backgroundColor = "";
-                        this.updateDisplayedAmount();
-                    }, 4000);
-                }
-            }
+        this.removeEventListeners = () => {
+            shadowRoot.removeEventListener("click", onClick);
+            shadowRoot.removeEventListener("change", onChange);
+            shadowRoot.removeEventListener("input", onInput);
+            shadowRoot.removeEventListener("keydown", onKeydown);
+        };
+    }
+
+    private formatCurrency(amount: number): string {
+        let formatted: string;
+        try {
+            formatted = amount.toLocaleString(this.locale, {
+                minimumFractionDigits: 2,
+                maximumFractionDigits: 2,
+            });
+        } catch {
+            formatted = amount.toFixed(2);
         }
+        return `${this.controller.getState().currencySymbol}${formatted}`;
     }
 
-    private loadMobileMoneyModal(): void {
-        if ((window as any).MobileMoneyModal) {
-            this.mobileMoneyModal = new (window as any).MobileMoneyModal();
-            return;
+    private t(
+        key: keyof WidgetMessages,
+        params?: Record<string, string | number>
+    ): string {
+        return formatMessage(this.messages[key], params);
+    }
+
+    /**
+     * Like `t`, for messages with markup in their parameters: the message
+     * itself is escaped, the `html` parameters are inserted as they are
+     */
+    private tHtml(
+        key: keyof WidgetMessages,
+        params: Record<string, string | number | SafeHtml>
+    ): SafeHtml {
+        const escapedParams: Record<string, string> = {};
+        Object.keys(params).forEach((name) => {
+            escapedParams[name] = html`${params[name]}`.value;
+        });
+        return new SafeHtml(formatMessage(html`${this.messages[key]}`.value, escapedParams));
+    }
+
+    private getLocaleAttributes(): SafeHtml {
+        const dir = this.dirOverride || getTextDirection(this.locale);
+        return html`lang="${this.locale}" dir="${dir}"`;
+    }
+
+    private renderCurrentState(): void {
+        if (!this.root) return;
+
+        const state = this.controller.getState();
+
+        let template: SafeHtml;
+        if (state.isLoading) {
+            template = this.renderLoading();
+        } else if (state.loadError) {
+            template = this.renderError(state.loadError.message);
+        } else if (!state.hasActiveProjects) {
+            template = this.renderError(this.t("noActiveProjects"));
+        } else {
+            template = this.render(state);
         }
 
-        const script = document.createElement("script");
-        script.src = `${this.baseUrl}/widget/mobile-money-modal.js`;
-        script.onload = () => {
-            this.mobileMoneyModal = new (window as any).MobileMoneyModal();
-        };
-        script.onerror = () => {
-            console.error("Failed to load mobile money modal script");
-        };
-        document.head.appendChild(script);
+        patch(this.root, template);
+        this.renderDiagnostics();
+
+        if (state.config && !state.loadError) {
+            this.observeImpression();
+        }
     }
 
-    private setupMobileMoneyModalCallbacks(): void {
-        if (!this.mobileMoneyModal) return;
+    /**
+     * Debug mode's panel: where the configuration came from, the current
+     * state, the latest API calls and the last error. It is meant for
+     * developers, so it isn't localized.
+     */
+    private renderDiagnostics(): void {
+        if (!this.diagnosticsRoot) return;
+
+        const state = this.controller.getState();
+        const diagnostics = this.controller.getDiagnostics();
+        const requests = diagnostics.requests.slice(-MAX_DIAGNOSTICS_REQUESTS);
+        const lastError = diagnostics.lastError;
+        const selection = [
+            state.status,
+            state.config ? this.formatCurrency(state.amount) : null,
+            state.paymentMethod,
+            state.config ? state.frequency : null,
+            state.mode === "opt-in" ? (state.isEnabled ? "enabled" : "disabled") : null,
+        ].filter(Boolean);
+
+        patch(
+            this.diagnosticsRoot,
+            html`
+          <div class="p2n-diagnostics" part="diagnostics" lang="en" dir="ltr">
+            <button type="button" class="p2n-diagnostics-toggle" aria-expanded="${String(this.isDiagnosticsOpen)}">Diagnostics · ${diagnostics.instanceId}</button>
+            <dl class="p2n-diagnostics-body" ${!this.isDiagnosticsOpen && "hidden"}>
+              <dt>Config</dt>
+              <dd data-diagnostic="config">${diagnostics.configSource || (state.isLoading ? "loading" : "none")}</dd>
+              <dt>State</dt>
+              <dd data-diagnostic="state">${selection.join(" · ")}</dd>
+              <dt>API calls</dt>
+              <dd data-diagnostic="requests">${
+                  requests.length > 0
+                      ? html`<ol>${requests.map((request) => html`<li>${describeRequest(request)}</li>`)}</ol>`
+                      : "none"
+              }</dd>
+              <dt>Last error</dt>
+              <dd data-diagnostic="error">${lastError ? `${lastError.code}: ${lastError.message}` : "none"}</dd>
+            </dl>
+          </div>
+        `
+        );
+    }
 
-        this.mobileMoneyModal.setCallbacks({
-            onNameChange: (name: string) => {
-                this.mobileMoneyName = name;
-            },
-            onNumberChange: (number: string) => {
-                this.mobileMoneyNumber = number;
-            },
-            onProviderChange: (provider: string) => {
-                this.mobileMoneyProvider = provider;
-            },
-            onProceed: async (data: any) => {
-                this.mobileMoneyName = data.name;
-                this.mobileMoneyNumber = data.number;
-                this.mobileMoneyProvider = data.provider;
-                this.mobileMoneyAnonymous = data.isAnonymous;
-
-                const amount = this.isCustom
-                    ? parseFloat(this.customAmount)
-                    : this.selectedAmount;
-
-                this.mobileMoneyModal.hide();
-
-                await this.initiateMobileMoneyPayment(
-                    amount,
-                    data.number,
-                    data.provider,
-                    data.name
-                );
-            },
-            onHide: () => {
-                this.showMobileMoneyPrompt = false;
-                this.mobileMoneyNumber = "";
-                this.mobileMoneyName = "";
-                this.mobileMoneyProvider = "";
-                this.mobileMoneyAnonymous = false;
+    /**
+     * Reports the widget's impression once at least half of it is on screen,
+     * or straight away where IntersectionObserver isn't supported
+     */
+    private observeImpression(): void {
+        if (this.impressionObserver || !this.container) return;
+
+        if (typeof IntersectionObserver === "undefined") {
+            this.controller.trackImpression();
+            return;
+        }
+
+        this.impressionObserver = new IntersectionObserver(
+            (entries) => {
+                if (entries.some((entry) => entry.isIntersecting)) {
+                    this.controller.trackImpression();
+                    this.impressionObserver?.disconnect();
+                }
             },
-        });
+            { threshold: 0.5 }
+        );
+        this.impressionObserver.observe(this.container);
     }
 
-    private async initiateMobileMoneyPayment(
-        amount: number,
-        mobileNumber: string,
-        mobileProvider: string,
-        customerName: string | null
-    ): Promise<void> {
-        try {
-            this.isProcessing = true;
+    private handleRadioGroupKeydown(event: KeyboardEvent, group: HTMLElement): void {
+        const radios = Array.from(
+            group.querySelectorAll<HTMLElement>("[role=radio]")
+        );
+        const index = radios.indexOf(event.target as HTMLElement);
+        if (index === -1) return;
+
+        const isRtl = (this.dirOverride || getTextDirection(this.locale)) === "rtl";
+        let next: number;
+        switch (event.key) {
+            case "ArrowDown":
+                next = index + 1;
+                break;
+            case "ArrowUp":
+                next = index - 1;
+                break;
+            case "ArrowRight":
+                next = isRtl ? index - 1 : index + 1;
+                break;
+            case "ArrowLeft":
+                next = isRtl ? index + 1 : index - 1;
+                break;
+            case "Home":
+                next = 0;
+                break;
+            case "End":
+                next = radios.length - 1;
+                break;
+            default:
+                return;
+        }
 
-            if (this.shadowRoot) {
-                const contributeButton = this.shadowRoot.querySelector(
-                    ".p2n-contribute"
-                ) as HTMLButtonElement;
-                const originalHTML = contributeButton?.innerHTML || "";
-                if (contributeButton) {
-                    contributeButton.disabled = true;
-                    contributeButton.innerHTML = "Processing...";
-                }
-            }
+        event.preventDefault();
+        const target = radios[(next + radios.length) % radios.length];
+        target.focus();
+        // Moving focus in a radio group also selects
+        target.click();
+    }
 
-            const requestBody = {
-                amount: parseFloat(String(amount)),
-                mobileNumber,
-                mobileProvider,
-                customerName,
-            };
+    /**
+     * Escape closes the checkout dialog; Tab cycles within it
+     */
+    private handleDialogKeydown(event: KeyboardEvent, dialog: HTMLElement): void {
+        if (event.key === "Escape") {
+            event.preventDefault();
+            this.controller.closeCheckout();
+            return;
+        }
+        if (event.key !== "Tab") return;
+
+        const focusable = Array.from(
+            dialog.querySelectorAll<HTMLElement>("button, iframe, a[href]")
+        );
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (event.shiftKey && event.target === first) {
+            event.preventDefault();
+            last.focus();
+        } else if (!event.shiftKey && event.target === last) {
+            event.preventDefault();
+            first.focus();
+        }
+    }
 
-            const response = await fetch(
-                `${this.baseUrl}/api/widget/${this.widgetToken}/mobileMoney/initiate-payment`,
-                {
-                    method: "POST",
-                    headers: {
-                        "Content-Type": "application/json",
-                    },
-                    body: JSON.stringify(requestBody),
-                }
-            );
+    /**
+     * Announces status and validation changes through the polite live region
+     */
+    private announceChanges(
+        state: Pay2NatureState,
+        previousState: Pay2NatureState
+    ): void {
+        let message: string | null = null;
+
+        if (state.status !== previousState.status) {
+            message = this.getStatusAnnouncement(state);
+        } else if (state.isValid !== previousState.isValid && state.status === "idle") {
+            message = state.isValid
+                ? this.t(state.mode === "opt-in" ? "optInLabel" : "contribute", {
+                      amount: this.formatCurrency(state.amount),
+                  })
+                : this.t("amountTooLow", {
+                      amount: this.formatCurrency(state.minAmount),
+                  });
+        }
+
+        if (message !== null) {
+            this.announce(message);
+        }
+    }
 
-            if (!response.ok) {
-                const errorData = await response.json();
-                throw new Error(
-                    errorData.message ||
-                        `HTTP ${response.status}: ${response.statusText}`
+    private getStatusAnnouncement(state: Pay2NatureState): string | null {
+        switch (state.status) {
+            case "processing":
+                return this.t("processing");
+            case "redirecting": {
+                const projectName = state.lastContribution?.projectName;
+                return projectName
+                    ? this.t("openingPaymentForProject", { project: projectName })
+                    : this.t("openingPayment");
+            }
+            case "blocked":
+                return `${this.t("popupBlocked")} ${this.t("openPaymentPage")}`;
+            case "confirming":
+                return this.t("confirmingPayment");
+            case "confirmed":
+                return state.confirmation
+                    ? `${this.t("thankYouTitle")} ${this.getThankYouDetail(state.confirmation)}`
+                    : this.t("thankYouTitle");
+            case "error":
+                return state.statusMessage
+                    ? `${this.t("paymentError")} ${state.statusMessage}`
+                    : this.t("paymentError");
+            case "pending":
+                return `${this.t("paymentPending")} ${this.t("paymentPendingDetail")}`;
+            case "approved":
+                return this.t("paymentApproved");
+            case "failed":
+            case "expired": {
+                const label = this.t(
+                    state.status === "failed" ? "paymentFailed" : "paymentExpired"
                 );
+                return state.statusMessage ? `${label} ${state.statusMessage}` : label;
             }
+            default:
+                return null;
+        }
+    }
 
-            const result = await response.json();
+    private announce(message: string): void {
+        const announcer = this.shadowRoot?.querySelector(".p2n-announcer");
+        if (!announcer) return;
+        // Clear first so repeating the same message is announced again
+        announcer.textContent = "";
+        if (this.announceTimer) {
+            clearTimeout(this.announceTimer);
+        }
+        this.announceTimer = setTimeout(() => {
+            this.announceTimer = null;
+            announcer.textContent = message;
+        }, 50);
+    }
 
-            this.onContribution({
-                amount,
-                currency: this.currency,
-                paymentToken: result.paymentToken,
-            });
+    /**
+     * Finished contributions are shown briefly on the button, then the
+     * widget returns to amount selection
+     */
+    private scheduleStatusReset(state: Pay2NatureState): void {
+        if (this.statusResetTimer) {
+            clearTimeout(this.statusResetTimer);
+            this.statusResetTimer = null;
+        }
 
-            this.isProcessing = false;
+        let delay: number;
+        switch (state.status) {
+            case "redirecting":
+            case "approved":
+                delay = 3000;
+                break;
+            case "error":
+            case "failed":
+            case "expired":
+                delay = 4000;
+                break;
+            default:
+                return;
+        }
 
-            if (this.shadowRoot) {
-                const contributeButton = this.shadowRoot.querySelector(
-                    ".p2n-contribute"
-                ) as HTMLButtonElement;
-                if (contributeButton) {
-                    contributeButton.disabled = false;
-                    contributeButton.innerHTML = "Processing...";
-                    contributeButton.style.backgroundColor = "";
-                }
-            }
-        } catch (error) {
-            console.error("Pay2Nature contribution error:", error);
-            this.onError(
-                error instanceof Error ? error : new Error(String(error))
+        this.statusResetTimer = setTimeout(() => {
+            this.statusResetTimer = null;
+            this.controller.resetStatus();
+        }, delay);
+    }
+
+    private async handleContribution(): Promise<void> {
+        const state = this.controller.getState();
+
+        if (state.isProcessing) return;
+
+        if (!state.isValid) {
+            this.announce(
+                this.t("amountTooLow", {
+                    amount: this.formatCurrency(state.minAmount),
+                })
+            );
+            this.controller.reportError(
+                new ValidationError(
+                    this.t("amountTooLow", {
+                        amount: this.formatCurrency(state.minAmount),
+                    })
+                )
             );
+            return;
+        }
 
-            this.isProcessing = false;
+        const stepContainer = this.shadowRoot?.querySelector(
+            ".p2n-step"
+        ) as HTMLElement | null;
 
-            if (this.shadowRoot) {
-                const contributeButton = this.shadowRoot.querySelector(
-                    ".p2n-contribute"
-                ) as HTMLButtonElement;
-                if (contributeButton) {
-                    contributeButton.disabled = false;
-                    contributeButton.innerHTML = "Payment Error - Try Again";
-                    contributeButton.style.backgroundColor = "#ef4444";
-
-                    setTimeout(() => {
-                        contributeButton.style.backgroundColor = "";
-                        this.updateDisplayedAmount();
-                    }, 4000);
-                }
+        const stepAbortController = new AbortController();
+        this.stepAbortController = stepAbortController;
+
+        try {
+            await this.controller.contribute({
+                step: stepContainer
+                    ? {
+                          container: stepContainer,
+                          messages: this.messages,
+                          formatAmount: (amount) => this.formatCurrency(amount),
+                          signal: stepAbortController.signal,
+                      }
+                    : undefined,
+            });
+        } finally {
+            if (this.stepAbortController === stepAbortController) {
+                this.stepAbortController = null;
             }
         }
     }
 
     // Public API methods
     public destroy(): void {
+        if (this.statusResetTimer) {
+            clearTimeout(this.statusResetTimer);
+            this.statusResetTimer = null;
+        }
+        if (this.announceTimer) {
+            clearTimeout(this.announceTimer);
+            this.announceTimer = null;
+        }
+        if (this.impressionObserver) {
+            this.impressionObserver.disconnect();
+            this.impressionObserver = null;
+        }
+        if (this.stepAbortController) {
+            this.stepAbortController.abort();
+            this.stepAbortController = null;
+        }
+        this.unsubscribe();
+        this.controller.destroy();
+
+        if (this.removeEventListeners) {
+            this.removeEventListeners();
+            this.removeEventListeners = null;
+        }
+
+        // The shadow root stays attached to the container and is reused by
+        // the next widget initialized on it
         if (this.shadowRoot) {
-            // Clear the shadow root content instead of trying to remove it
-            try {
-                this.shadowRoot.innerHTML = "";
-            } catch (error) {
-                // Ignore errors when clearing (shadow root might already be detached)
-                console.warn("Pay2Nature: Error clearing shadow root:", error);
-            }
+            this.shadowRoot.innerHTML = "";
             this.shadowRoot = null;
         }
-        // Note: We don't remove the shadow root itself as it's attached to the container
-        // and removing it would cause issues if the widget is re-initialized
-        // The shadow root will be reused by new instances if the container is reused
+        this.root = null;
+        this.diagnosticsRoot = null;
+        this.themeStyle = null;
     }
 
-    public updateConfig(config: Partial<WidgetConfig>): void {
-        if (this.config) {
-            this.config = { ...this.config, ...config };
-            this.render();
+    public on<K extends keyof Pay2NatureEventMap>(
+        event: K,
+        handler: (payload: Pay2NatureEventMap[K]) => void
+    ): () => void {
+        return this.controller.on(event, handler);
+    }
+
+    public off<K extends keyof Pay2NatureEventMap>(
+        event: K,
+        handler: (payload: Pay2NatureEventMap[K]) => void
+    ): void {
+        this.controller.off(event, handler);
+    }
+
+    public once<K extends keyof Pay2NatureEventMap>(
+        event: K,
+        handler: (payload: Pay2NatureEventMap[K]) => void
+    ): () => void {
+        return this.controller.once(event, handler);
+    }
+
+    public setTheme(theme: ThemeOption): void {
+        this.themeTokens = resolveTheme(theme);
+
+        if (this.themeStyle) {
+            this.themeStyle.textContent = this.getThemeStyles();
+        }
+    }
+
+    public setLocale(locale: string, messages?: MessageCatalogs): void {
+        this.locale = locale;
+        if (messages) {
+            this.messageOverrides = { ...this.messageOverrides, ...messages };
         }
+        this.messages = resolveMessages(this.locale, this.messageOverrides);
+        this.renderCurrentState();
+    }
+
+    public updateConfig(config: Partial<WidgetConfig>): void {
+        this.controller.updateConfig(config);
+    }
+
+    /**
+     * Switches the contribution on or off, like the opt-in switch
+     */
+    public setEnabled(isEnabled: boolean): void {
+        this.controller.setEnabled(isEnabled);
+    }
+
+    /**
+     * The contribution currently chosen, for adding it to the host's
+     * checkout in opt-in mode
+     */
+    public getSelection(): ContributionSelection {
+        return this.controller.getSelection();
+    }
+
+    public selectProject(projectId: string): void {
+        this.controller.selectProject(projectId);
+    }
+
+    public selectFrequency(frequency: ContributionFrequency): void {
+        this.controller.selectFrequency(frequency);
+    }
+
+    /**
+     * Closes the checkout dialog of the "modal" presentation, e.g. once the
+     * host learns the payment is complete
+     */
+    public closeCheckout(): void {
+        this.controller.closeCheckout();
+    }
+
+    /**
+     * Changes how preset amounts are generated, e.g. with a new
+     * `orderTotal` when the cart changes
+     */
+    public setAmountOptions(options: AmountOptions): void {
+        this.controller.setAmountOptions(options);
+    }
+
+    /**
+     * Sets the order total used by the "round-up" and "percentage" amount
+     * strategies; call it whenever the cart changes
+     */
+    public setOrderTotal(orderTotal: number | null): void {
+        this.controller.setOrderTotal(orderTotal);
+    }
+
+    /**
+     * Replaces the analytics adapters without re-creating the widget
+     */
+    public setAnalytics(analytics: AnalyticsAdapter | AnalyticsAdapter[] | undefined): void {
+        this.controller.setAnalytics(analytics);
+    }
+
+    /**
+     * Routes log entries to another logger, or back to the console
+     */
+    public setLogger(logger: Pay2NatureLogger | undefined): void {
+        this.controller.setLogger(logger);
+    }
+
+    /**
+     * Fetches the configuration again, bypassing the cache, and re-renders
+     * if it changed
+     */
+    public refreshConfig(): Promise<void> {
+        return this.controller.refreshConfig();
+    }
+
+    /**
+     * Returns the headless controller driving this widget, for hosts that
+     * want to read its state or trigger actions alongside the built-in UI
+     */
+    public getController(): Pay2NatureController {
+        return this.controller;
     }
 }
@@ -0,0 +1,252 @@
+/**
+ * Pay2Nature Preset Amounts
+ * Generates the preset amount buttons from the configured strategy, always
+ * within the widget's minimum and maximum amounts
+ */
+
+export type AmountStrategy =
+    | "linear"
+    | "nice"
+    | "list"
+    | "percentage"
+    | "round-up";
+
+export interface AmountOptions {
+    // Default: "list" when `values` is set, otherwise "linear"
+    strategy?: AmountStrategy;
+    // Explicit preset amounts for the "list" strategy
+    values?: number[];
+    // Percentages of `orderTotal` for the "percentage" strategy (default: [1, 2, 5])
+    percentages?: number[];
+    // Order total supplied by the host for the "percentage" and "round-up" strategies
+    orderTotal?: number;
+    // Steps, in whole currency units, the "round-up" strategy rounds the
+    // order total up to (default: [1, 5, 10], or [100, 500, 1000] for
+    // currencies without decimals)
+    roundUpTo?: number[];
+    // Number of presets to show (default: 5, 3 for "round-up", or every value of a list)
+    count?: number;
+    // Index of the preset selected initially (default: the configured
+    // defaultAmount, or the first preset for "round-up")
+    defaultIndex?: number;
+}
+
+export interface AmountLimits {
+    minAmount: number;
+    maxAmount: number;
+    currency: string;
+}
+
+const DEFAULT_COUNT = 5;
+const DEFAULT_ROUND_UP_COUNT = 3;
+const DEFAULT_PERCENTAGES = [1, 2, 5];
+const DEFAULT_ROUND_UP_STEPS = [1, 5, 10];
+// Multiples of each power of ten that read as round amounts
+const NICE_STEPS = [1, 1.5, 2, 2.5, 3, 4, 5, 7.5];
+
+function roundToCents(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Number of decimals used by a currency, e.g. 2 for USD and 0 for JPY
+ */
+function getCurrencyDecimals(currency: string): number {
+    try {
+        return (
+            new Intl.NumberFormat("en", { style: "currency", currency })
+                .resolvedOptions().maximumFractionDigits ?? 2
+        );
+    } catch {
+        return 2;
+    }
+}
+
+/**
+ * Rounds to the closest round amount within the limits (e.g. 1.63 → 1.5,
+ * 27 → 25, 966 → 1000) that the currency can represent
+ */
+function toNiceAmount(amount: number, currency: string, limits: AmountLimits): number {
+    if (amount <= 0) return limits.minAmount;
+
+    const unit = Math.pow(10, getCurrencyDecimals(currency));
+    const magnitude = Math.pow(10, Math.floor(Math.log10(amount)));
+    const candidates = [magnitude / 10, magnitude, magnitude * 10]
+        .reduce<number[]>(
+            (all, power) => all.concat(NICE_STEPS.map((step) => step * power)),
+            []
+        )
+        .map((candidate) => Math.round(candidate * unit) / unit)
+        .filter(
+            (candidate) =>
+                candidate > 0 &&
+                candidate >= limits.minAmount &&
+                candidate <= limits.maxAmount
+        );
+
+    if (candidates.length === 0) return clamp(roundToCents(amount), limits);
+
+    return candidates.reduce((closest, candidate) =>
+        Math.abs(candidate - amount) < Math.abs(closest - amount)
+            ? candidate
+            : closest
+    );
+}
+
+function clamp(amount: number, limits: AmountLimits): number {
+    return Math.min(Math.max(amount, limits.minAmount), limits.maxAmount);
+}
+
+function interpolate(limits: AmountLimits, count: number): number[] {
+    if (count === 1) return [limits.minAmount];
+    const step = (limits.maxAmount - limits.minAmount) / (count - 1);
+    return Array.from({ length: count }, (_, index) =>
+        index === count - 1 ? limits.maxAmount : limits.minAmount + step * index
+    );
+}
+
+/**
+ * Amounts that round the order total up to the next multiple of each step,
+ * e.g. 23.40 → 0.60 (24), 1.60 (25) and 6.60 (30). A target closer than the
+ * minimum amount moves up by one step. When the maximum amount rules out
+ * the larger steps, further multiples of the smallest step fill in.
+ */
+function getRoundUpAmounts(
+    orderTotal: number,
+    options: AmountOptions,
+    limits: AmountLimits,
+    count: number
+): number[] {
+    // Work in the currency's smallest unit to avoid floating point errors
+    const decimals = getCurrencyDecimals(limits.currency);
+    const unit = Math.pow(10, decimals);
+    const steps =
+        options.roundUpTo ||
+        DEFAULT_ROUND_UP_STEPS.map((step) => (decimals === 0 ? step * 100 : step));
+    const total = Math.round(orderTotal * unit);
+    const minimum = Math.max(Math.round(limits.minAmount * unit), 1);
+    const maximum = Math.round(limits.maxAmount * unit);
+    const unitSteps = steps
+        .map((step) => Math.round(step * unit))
+        .filter((step) => step > 0);
+    if (unitSteps.length === 0) return [];
+
+    const targets: number[] = [];
+    const addTarget = (target: number) => {
+        if (target - total <= maximum && !targets.includes(target)) {
+            targets.push(target);
+        }
+    };
+
+    unitSteps.forEach((step) => {
+        let target = Math.ceil(total / step) * step;
+        while (target - total < minimum) target += step;
+        addTarget(target);
+    });
+
+    const smallestStep = Math.min(...unitSteps);
+    let next = targets.length > 0 ? Math.min(...targets) : total + maximum + 1;
+    while (targets.length < count && next + smallestStep - total <= maximum) {
+        next += smallestStep;
+        addTarget(next);
+    }
+
+    return targets.map((target) => (target - total) / unit);
+}
+
+export function getAmountStrategy(options: AmountOptions): AmountStrategy {
+    return options.strategy || (options.values ? "list" : "linear");
+}
+
+function unique(amounts: number[]): number[] {
+    return amounts.filter((amount, index) => amounts.indexOf(amount) === index);
+}
+
+/**
+ * Returns the preset amounts for `options`, sorted, de-duplicated and
+ * clamped to the limits. The "percentage" and "round-up" strategies fall
+ * back to "nice" until an order total is known.
+ */
+export function generatePresetAmounts(
+    options: AmountOptions,
+    limits: AmountLimits
+): number[] {
+    const strategy = getAmountStrategy(options);
+    const count = Math.max(
+        1,
+        Math.floor(
+            options.count ??
+                (strategy === "round-up" ? DEFAULT_ROUND_UP_COUNT : DEFAULT_COUNT)
+        )
+    );
+
+    let amounts: number[];
+    switch (strategy) {
+        case "list":
+            amounts = (options.values || [])
+                .filter((value) => typeof value === "number" && isFinite(value))
+                .map((value) => clamp(roundToCents(value), limits));
+            amounts = unique(amounts);
+            if (options.count !== undefined) amounts = amounts.slice(0, count);
+            break;
+        case "round-up":
+            if (options.orderTotal && options.orderTotal > 0) {
+                amounts = getRoundUpAmounts(
+                    options.orderTotal,
+                    options,
+                    limits,
+                    count
+                ).slice(0, count);
+                if (amounts.length > 0) break;
+            }
+            amounts = interpolate(limits, count).map((amount) =>
+                toNiceAmount(amount, limits.currency, limits)
+            );
+            break;
+        case "percentage":
+            if (options.orderTotal && options.orderTotal > 0) {
+                const total = options.orderTotal;
+                amounts = (options.percentages || DEFAULT_PERCENTAGES)
+                    .slice(0, count)
+                    .map((percentage) =>
+                        toNiceAmount((total * percentage) / 100, limits.currency, limits)
+                    );
+                break;
+            }
+        // falls through
+        case "nice":
+            amounts = interpolate(limits, count).map((amount) =>
+                toNiceAmount(amount, limits.currency, limits)
+            );
+            break;
+        default:
+            amounts = interpolate(limits, count).map(roundToCents);
+    }
+
+    return unique(amounts).sort((a, b) => a - b);
+}
+
+/**
+ * The amount selected initially: the preset at `defaultIndex`, otherwise
+ * the configured default amount, clamped to the limits. Round-up selects
+ * the smallest round-up by default.
+ */
+export function resolveDefaultAmount(
+    options: AmountOptions,
+    presets: number[],
+    defaultAmount: number,
+    limits: AmountLimits
+): number {
+    const defaultIndex =
+        options.defaultIndex ??
+        (options.strategy === "round-up" && options.orderTotal ? 0 : undefined);
+
+    if (defaultIndex !== undefined && presets.length > 0) {
+        const index = Math.min(
+            Math.max(Math.floor(defaultIndex), 0),
+            presets.length - 1
+        );
+        return presets[index];
+    }
+    return clamp(defaultAmount, limits);
+}
@@ -0,0 +1,156 @@
+/**
+ * Pay2Nature Analytics
+ * The funnel events a widget reports to the host's analytics, and adapters
+ * for common tag managers. Nothing is tracked unless the host passes the
+ * `analytics` option.
+ */
+
+import type { Pay2NatureErrorCode } from "./errors";
+import type { Logger } from "./logger";
+import type {
+    ContributionFrequency,
+    PaymentMethod,
+    PaymentPresentation,
+} from "./types";
+
+export type AnalyticsEventName =
+    // The widget became visible to the donor
+    | "impression"
+    // The donor chose a preset amount or finished entering a custom one
+    | "amount_selected"
+    | "contribute_clicked"
+    // The payment page or payment prompt was handed to the donor
+    | "payment_opened"
+    // The payment was approved
+    | "payment_completed"
+    // The donor left the payment before completing it
+    | "payment_abandoned"
+    | "error";
+
+export type AnalyticsAbandonReason =
+    // The donor cancelled a provider's step, e.g. the mobile money form
+    | "step_cancelled"
+    // The donor closed the checkout dialog
+    | "checkout_closed"
+    // The donor dismissed the payment page after the browser blocked it
+    | "popup_blocked"
+    // The donor returned from the payment page through its cancel link
+    | "payment_page_cancelled"
+    // The mobile money prompt was not approved in time
+    | "expired";
+
+export interface AnalyticsProps {
+    widgetToken: string;
+    mode: "payment" | "opt-in";
+    amount?: number;
+    currency?: string;
+    isCustom?: boolean;
+    paymentMethod?: PaymentMethod;
+    frequency?: ContributionFrequency;
+    projectId?: string;
+    presentation?: PaymentPresentation;
+    reason?: AnalyticsAbandonReason;
+    errorCode?: Pay2NatureErrorCode;
+}
+
+export interface AnalyticsAdapter {
+    track(event: AnalyticsEventName, props: AnalyticsProps): void;
+}
+
+export interface TagManagerAdapterOptions {
+    // Prepended to event names (default: "pay2nature_")
+    eventPrefix?: string;
+}
+
+export interface GoogleTagManagerAdapterOptions extends TagManagerAdapterOptions {
+    // Global data layer array (default: "dataLayer")
+    dataLayerName?: string;
+}
+
+const DEFAULT_EVENT_PREFIX = "pay2nature_";
+
+function getGlobal<T>(name: string): T | undefined {
+    return typeof window === "undefined"
+        ? undefined
+        : ((window as unknown as Record<string, unknown>)[name] as T | undefined);
+}
+
+/**
+ * Passes an event to every adapter. A failing adapter is logged and never
+ * interrupts the donor's contribution.
+ */
+export function trackAnalyticsEvent(
+    adapters: AnalyticsAdapter[],
+    event: AnalyticsEventName,
+    props: AnalyticsProps,
+    logger?: Logger
+): void {
+    // Adapters only see the properties that apply to the event
+    const defined = Object.fromEntries(
+        Object.entries(props).filter(([, value]) => value !== undefined)
+    ) as AnalyticsProps;
+
+    adapters.forEach((adapter) => {
+        try {
+            adapter.track(event, defined);
+        } catch (error) {
+            if (logger) {
+                logger.error(`Analytics adapter failed on "${event}"`, error);
+            } else {
+                console.error(`Pay2Nature: analytics adapter failed on "${event}":`, error);
+            }
+        }
+    });
+}
+
+/**
+ * Pushes `{ event: "pay2nature_<event>", ...props }` to Google Tag
+ * Manager's data layer, creating it if the container hasn't loaded yet
+ */
+export function googleTagManagerAdapter(
+    options: GoogleTagManagerAdapterOptions = {}
+): AnalyticsAdapter {
+    const prefix = options.eventPrefix ?? DEFAULT_EVENT_PREFIX;
+    const dataLayerName = options.dataLayerName || "dataLayer";
+
+    return {
+        track(event, props) {
+            if (typeof window === "undefined") return;
+            const globals = window as unknown as Record<string, unknown[] | undefined>;
+            const dataLayer = globals[dataLayerName] || (globals[dataLayerName] = []);
+            dataLayer.push({ event: `${prefix}${event}`, ...props });
+        },
+    };
+}
+
+/**
+ * Sends `gtag("event", "pay2nature_<event>", props)`, for Google Analytics 4
+ * installed with the global site tag
+ */
+export function gtagAdapter(options: TagManagerAdapterOptions = {}): AnalyticsAdapter {
+    const prefix = options.eventPrefix ?? DEFAULT_EVENT_PREFIX;
+
+    return {
+        track(event, props) {
+            const gtag = getGlobal<(...args: unknown[]) => void>("gtag");
+            gtag?.("event", `${prefix}${event}`, props);
+        },
+    };
+}
+
+/**
+ * Calls `analytics.track("pay2nature_<event>", props)` on Segment's
+ * analytics.js (or any library with the same API)
+ */
+export function segmentAdapter(options: TagManagerAdapterOptions = {}): AnalyticsAdapter {
+    const prefix = options.eventPrefix ?? DEFAULT_EVENT_PREFIX;
+
+    return {
+        track(event, props) {
+            const analytics = getGlobal<{
+                track?: (event: string, props: AnalyticsProps) => void;
+            }>("analytics");
+            analytics?.track?.(`${prefix}${event}`, props);
+        },
+    };
+}
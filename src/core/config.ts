@@ -0,0 +1,205 @@
+/**
+ * Pay2Nature Widget Configuration
+ * Fetches a widget's configuration and caches it for every widget on the
+ * page. `fetchWidgetConfig` has no DOM dependencies, so it can run on the
+ * server (e.g. a Next.js server component or getServerSideProps) and the
+ * result passed to the widget as `initialConfig`.
+ */
+
+import { ConfigNotFoundError, HttpError, ValidationError } from "./errors";
+import { HttpClient } from "./http";
+import type { WidgetConfig } from "./types";
+
+export function getWidgetConfigUrl(widgetToken: string, baseUrl: string): string {
+    return `${baseUrl}/api/widget/${widgetToken}/config`;
+}
+
+/**
+ * Fetches the configuration for a widget token. `init` is passed to fetch,
+ * e.g. `{ next: { revalidate: 60 } }` in Next.js.
+ */
+export async function fetchWidgetConfig(
+    widgetToken: string,
+    baseUrl: string,
+    init?: RequestInit,
+    http: HttpClient = new HttpClient()
+): Promise<WidgetConfig> {
+    if (!baseUrl || !widgetToken) {
+        throw new ValidationError("Pay2Nature: widgetToken and baseUrl are required");
+    }
+
+    let configData: WidgetConfig | null;
+    try {
+        configData = await http.get<WidgetConfig | null>(
+            getWidgetConfigUrl(widgetToken, baseUrl),
+            { init }
+        );
+    } catch (error) {
+        if (error instanceof HttpError && error.status === 404) {
+            throw new ConfigNotFoundError(
+                `Widget configuration not found for token: ${widgetToken}`,
+                { status: error.status, data: error.data, cause: error }
+            );
+        }
+        if (error instanceof HttpError) {
+            throw new HttpError(
+                `Failed to fetch widget configuration: ${error.message}`,
+                error.status,
+                error.data
+            );
+        }
+        throw error;
+    }
+
+    if (!configData) {
+        throw new ConfigNotFoundError(
+            `No configuration found for widget token: ${widgetToken}`
+        );
+    }
+
+    return configData;
+}
+
+export type ConfigCacheStorage = "memory" | "sessionStorage" | "localStorage";
+
+export interface ConfigCacheOptions {
+    // Where configurations are persisted in addition to memory (default: "memory")
+    storage?: ConfigCacheStorage;
+    // Milliseconds a cached configuration is used without revalidating (default: 5 minutes)
+    ttl?: number;
+}
+
+export interface CachedWidgetConfig {
+    config: WidgetConfig;
+    fetchedAt: number;
+}
+
+const DEFAULT_CONFIG_TTL = 5 * 60 * 1000;
+const STORAGE_KEY_PREFIX = "pay2nature:config:";
+
+// Shared by every widget on the page, keyed by baseUrl + token
+const memoryCache = new Map<string, CachedWidgetConfig>();
+const pendingRequests = new Map<string, Promise<WidgetConfig>>();
+
+function getCacheKey(widgetToken: string, baseUrl: string): string {
+    return `${baseUrl}|${widgetToken}`;
+}
+
+function getStorage(storage: ConfigCacheStorage | undefined): Storage | null {
+    if (!storage || storage === "memory" || typeof window === "undefined") {
+        return null;
+    }
+    try {
+        return window[storage];
+    } catch {
+        // Access to storage can throw, e.g. when cookies are blocked
+        return null;
+    }
+}
+
+export function isCachedConfigStale(
+    entry: CachedWidgetConfig,
+    options: ConfigCacheOptions = {}
+): boolean {
+    return Date.now() - entry.fetchedAt > (options.ttl ?? DEFAULT_CONFIG_TTL);
+}
+
+/**
+ * Returns the cached configuration for a widget, stale or not, from memory
+ * or the configured storage
+ */
+export function readCachedConfig(
+    widgetToken: string,
+    baseUrl: string,
+    options: ConfigCacheOptions = {}
+): CachedWidgetConfig | null {
+    const key = getCacheKey(widgetToken, baseUrl);
+    const cached = memoryCache.get(key);
+    if (cached) return cached;
+
+    const storage = getStorage(options.storage);
+    if (!storage) return null;
+
+    try {
+        const stored = storage.getItem(STORAGE_KEY_PREFIX + key);
+        if (!stored) return null;
+        const entry = JSON.parse(stored) as CachedWidgetConfig;
+        if (!entry || !entry.config || typeof entry.fetchedAt !== "number") {
+            return null;
+        }
+        memoryCache.set(key, entry);
+        return entry;
+    } catch {
+        return null;
+    }
+}
+
+export function writeCachedConfig(
+    widgetToken: string,
+    baseUrl: string,
+    config: WidgetConfig,
+    options: ConfigCacheOptions = {}
+): void {
+    const key = getCacheKey(widgetToken, baseUrl);
+    const entry: CachedWidgetConfig = { config, fetchedAt: Date.now() };
+    memoryCache.set(key, entry);
+
+    const storage = getStorage(options.storage);
+    if (!storage) return;
+
+    try {
+        storage.setItem(STORAGE_KEY_PREFIX + key, JSON.stringify(entry));
+    } catch {
+        // Quota exceeded or storage disabled: the memory cache still applies
+    }
+}
+
+/**
+ * Fetches a configuration and stores it in the cache. Concurrent requests
+ * for the same widget share one network request.
+ */
+export function fetchAndCacheWidgetConfig(
+    widgetToken: string,
+    baseUrl: string,
+    options: ConfigCacheOptions = {},
+    http?: HttpClient
+): Promise<WidgetConfig> {
+    const key = getCacheKey(widgetToken, baseUrl);
+    const pending = pendingRequests.get(key);
+    if (pending) return pending;
+
+    const request = fetchWidgetConfig(widgetToken, baseUrl, undefined, http)
+        .then((config) => {
+            writeCachedConfig(widgetToken, baseUrl, config, options);
+            return config;
+        })
+        .finally(() => {
+            pendingRequests.delete(key);
+        });
+    pendingRequests.set(key, request);
+    return request;
+}
+
+/**
+ * Clears cached configurations from memory and from session/local storage
+ */
+export function clearConfigCache(): void {
+    memoryCache.clear();
+
+    (["sessionStorage", "localStorage"] as ConfigCacheStorage[]).forEach(
+        (type) => {
+            const storage = getStorage(type);
+            if (!storage) return;
+            try {
+                for (let i = storage.length - 1; i >= 0; i--) {
+                    const key = storage.key(i);
+                    if (key && key.startsWith(STORAGE_KEY_PREFIX)) {
+                        storage.removeItem(key);
+                    }
+                }
+            } catch {
+                // Ignore storage access errors
+            }
+        }
+    );
+}
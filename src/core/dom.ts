@@ -0,0 +1,206 @@
+/**
+ * Pay2Nature DOM Rendering
+ * `html` builds markup in which every interpolated value is escaped, and
+ * `patch` applies it to the existing tree, touching only the nodes that
+ * changed so focus, caret position and event listeners survive re-renders
+ */
+
+export class SafeHtml {
+    constructor(public readonly value: string) {}
+
+    public toString(): string {
+        return this.value;
+    }
+}
+
+// `false`, `null` and `undefined` render nothing, so `${flag && "hidden"}`
+// can toggle a boolean attribute
+export type TemplateValue =
+    | SafeHtml
+    | string
+    | number
+    | boolean
+    | null
+    | undefined
+    | TemplateValue[];
+
+const HTML_ESCAPES: Record<string, string> = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    '"': "&quot;",
+    "'": "&#39;",
+    "`": "&#96;",
+};
+
+export function escapeHtml(value: unknown): string {
+    return String(value).replace(/[&<>"'`]/g, (char) => HTML_ESCAPES[char]);
+}
+
+function renderValue(value: TemplateValue): string {
+    if (value === null || value === undefined || value === false) return "";
+    if (Array.isArray(value)) return value.map(renderValue).join("");
+    if (value instanceof SafeHtml) return value.value;
+    return escapeHtml(value);
+}
+
+/**
+ * Tagged template for widget markup. Values are escaped unless they are
+ * themselves `html` results (or arrays of them).
+ */
+export function html(
+    strings: TemplateStringsArray,
+    ...values: TemplateValue[]
+): SafeHtml {
+    let markup = strings[0];
+    for (let i = 0; i < values.length; i++) {
+        markup += renderValue(values[i]) + strings[i + 1];
+    }
+    return new SafeHtml(markup);
+}
+
+// Elements with this attribute keep their children: the widget or a
+// provider fills them outside of rendering (e.g. the live region)
+const UNMANAGED_ATTRIBUTE = "data-p2n-unmanaged";
+
+/**
+ * Updates `target` in place to match `template`, which must render a single
+ * element of the same tag. Children are matched by position, or by their
+ * `data-key` attribute when they have one.
+ */
+export function patch(target: Element, template: SafeHtml): void {
+    const container = target.ownerDocument.createElement("template");
+    container.innerHTML = template.value.trim();
+    const next = container.content.firstElementChild;
+
+    if (!next || next.nodeName !== target.nodeName) {
+        throw new Error(
+            `Pay2Nature: template must render a single <${target.nodeName.toLowerCase()}> element`
+        );
+    }
+
+    patchElement(target, next);
+}
+
+function getKey(node: Node | null): string | null {
+    return node && node.nodeType === Node.ELEMENT_NODE
+        ? (node as Element).getAttribute("data-key")
+        : null;
+}
+
+function isSameNode(current: Node, next: Node): boolean {
+    return (
+        current.nodeType === next.nodeType &&
+        current.nodeName === next.nodeName &&
+        getKey(current) === getKey(next)
+    );
+}
+
+function patchNode(current: Node, next: Node): void {
+    if (current.nodeType === Node.ELEMENT_NODE) {
+        patchElement(current as Element, next as Element);
+    } else if (current.nodeValue !== next.nodeValue) {
+        current.nodeValue = next.nodeValue;
+    }
+}
+
+function patchElement(current: Element, next: Element): void {
+    patchAttributes(current, next);
+    patchFormState(current, next);
+
+    if (!next.hasAttribute(UNMANAGED_ATTRIBUTE)) {
+        patchChildren(current, next);
+    }
+}
+
+function patchAttributes(current: Element, next: Element): void {
+    Array.from(current.attributes).forEach(({ name }) => {
+        if (!next.hasAttribute(name)) {
+            current.removeAttribute(name);
+        }
+    });
+    Array.from(next.attributes).forEach(({ name, value }) => {
+        if (current.getAttribute(name) !== value) {
+            current.setAttribute(name, value);
+        }
+    });
+}
+
+/**
+ * Attributes only set an input's initial state, so sync the live value too.
+ * A focused input keeps its caret position.
+ */
+function patchFormState(current: Element, next: Element): void {
+    if (current.nodeName === "OPTION") {
+        (current as HTMLOptionElement).selected = next.hasAttribute("selected");
+        return;
+    }
+    if (current.nodeName !== "INPUT") return;
+
+    const input = current as HTMLInputElement;
+    if (input.type === "checkbox" || input.type === "radio") {
+        input.checked = next.hasAttribute("checked");
+        return;
+    }
+
+    const value = next.getAttribute("value") ?? "";
+    if (input.value === value) return;
+
+    const root = input.getRootNode() as Document | ShadowRoot;
+    if (root.activeElement !== input) {
+        input.value = value;
+        return;
+    }
+
+    let start: number | null = null;
+    let end: number | null = null;
+    try {
+        start = input.selectionStart;
+        end = input.selectionEnd;
+    } catch {
+        // Some input types (e.g. number) don't expose a selection
+    }
+    input.value = value;
+    if (start !== null && end !== null) {
+        try {
+            input.setSelectionRange(
+                Math.min(start, value.length),
+                Math.min(end, value.length)
+            );
+        } catch {
+            // See above
+        }
+    }
+}
+
+function patchChildren(current: Element, next: Element): void {
+    const nextChildren = Array.from(next.childNodes);
+
+    nextChildren.forEach((nextChild, index) => {
+        let currentChild: Node | null = current.childNodes[index] || null;
+
+        // Bring a keyed node back into position instead of rebuilding it
+        const key = getKey(nextChild);
+        if (key !== null && getKey(currentChild) !== key) {
+            const match = Array.from(current.childNodes)
+                .slice(index + 1)
+                .find((child) => getKey(child) === key);
+            if (match) {
+                current.insertBefore(match, currentChild);
+                currentChild = match;
+            }
+        }
+
+        if (!currentChild) {
+            current.appendChild(nextChild);
+        } else if (isSameNode(currentChild, nextChild)) {
+            patchNode(currentChild, nextChild);
+        } else {
+            current.replaceChild(nextChild, currentChild);
+        }
+    });
+
+    while (current.childNodes.length > nextChildren.length) {
+        current.removeChild(current.lastChild!);
+    }
+}
@@ -0,0 +1,18 @@
+/**
+ * Pay2Nature Environments
+ * "live" talks to the production API. "sandbox" sends every request to the
+ * API's test endpoints, where no real money moves. "offline" makes no
+ * requests at all: the offline API (./offline) serves fixture configurations
+ * and simulates payment outcomes, so QA and component workbenches can reach
+ * every state of the widget.
+ */
+
+export type WidgetEnvironment = "live" | "sandbox" | "offline";
+
+/**
+ * The API's test endpoints for a base URL, e.g.
+ * "https://api.pay2nature.com/sandbox"
+ */
+export function getSandboxBaseUrl(baseUrl: string): string {
+    return `${baseUrl.replace(/\/+$/, "")}/sandbox`;
+}
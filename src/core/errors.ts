@@ -0,0 +1,156 @@
+/**
+ * Pay2Nature Errors
+ * Every error passed to `onError` / the `error` event is a Pay2NatureError
+ * with a stable `code`, so integrations can branch on it instead of on the
+ * message
+ */
+
+export type Pay2NatureErrorCode =
+    | "CONFIG_NOT_FOUND"
+    | "NO_ACTIVE_PROJECTS"
+    | "NETWORK"
+    | "TIMEOUT"
+    | "VALIDATION"
+    | "PAYMENT_REJECTED"
+    | "POPUP_BLOCKED"
+    | "PROVIDER_UNAVAILABLE"
+    | "UNKNOWN";
+
+export interface Pay2NatureErrorOptions {
+    // HTTP status of the response that caused the error
+    status?: number;
+    // Response body or other data from the server
+    data?: unknown;
+    retryable?: boolean;
+    cause?: unknown;
+}
+
+export class Pay2NatureError extends Error {
+    public readonly code: Pay2NatureErrorCode;
+    public readonly status: number | undefined;
+    public readonly data: unknown;
+    // Whether trying the same action again may succeed
+    public readonly retryable: boolean;
+    public readonly cause: unknown;
+
+    constructor(
+        code: Pay2NatureErrorCode,
+        message: string,
+        options: Pay2NatureErrorOptions = {}
+    ) {
+        super(message);
+        this.name = "Pay2NatureError";
+        this.code = code;
+        this.status = options.status;
+        this.data = options.data;
+        this.retryable = options.retryable ?? false;
+        this.cause = options.cause;
+    }
+
+    /**
+     * Returns `error` if it already is a Pay2NatureError, otherwise wraps it
+     * with the `UNKNOWN` code
+     */
+    public static from(error: unknown): Pay2NatureError {
+        if (error instanceof Pay2NatureError) return error;
+        const message =
+            error instanceof Error ? error.message : String(error ?? "Unknown error");
+        return new Pay2NatureError("UNKNOWN", message, { cause: error });
+    }
+}
+
+export class ConfigNotFoundError extends Pay2NatureError {
+    constructor(message: string, options: Pay2NatureErrorOptions = {}) {
+        super("CONFIG_NOT_FOUND", message, options);
+        this.name = "ConfigNotFoundError";
+    }
+}
+
+export class NoActiveProjectsError extends Pay2NatureError {
+    constructor(message: string, options: Pay2NatureErrorOptions = {}) {
+        super("NO_ACTIVE_PROJECTS", message, options);
+        this.name = "NoActiveProjectsError";
+    }
+}
+
+/**
+ * The request failed to reach the server, or the server answered with an
+ * error status that isn't covered by a more specific code
+ */
+export class NetworkError extends Pay2NatureError {
+    constructor(message: string, options: Pay2NatureErrorOptions = {}) {
+        super("NETWORK", message, { retryable: true, ...options });
+        this.name = "NetworkError";
+    }
+}
+
+export class TimeoutError extends Pay2NatureError {
+    constructor(message: string, options: Pay2NatureErrorOptions = {}) {
+        super("TIMEOUT", message, { retryable: true, ...options });
+        this.name = "TimeoutError";
+    }
+}
+
+export class ValidationError extends Pay2NatureError {
+    constructor(message: string, options: Pay2NatureErrorOptions = {}) {
+        super("VALIDATION", message, options);
+        this.name = "ValidationError";
+    }
+}
+
+export class PaymentRejectedError extends Pay2NatureError {
+    constructor(message: string, options: Pay2NatureErrorOptions = {}) {
+        super("PAYMENT_REJECTED", message, options);
+        this.name = "PaymentRejectedError";
+    }
+}
+
+export class PopupBlockedError extends Pay2NatureError {
+    constructor(message: string, options: Pay2NatureErrorOptions = {}) {
+        super("POPUP_BLOCKED", message, { retryable: true, ...options });
+        this.name = "PopupBlockedError";
+    }
+}
+
+export class ProviderUnavailableError extends Pay2NatureError {
+    constructor(message: string, options: Pay2NatureErrorOptions = {}) {
+        super("PROVIDER_UNAVAILABLE", message, options);
+        this.name = "ProviderUnavailableError";
+    }
+}
+
+// Statuses worth retrying: the same request may succeed a moment later
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+/**
+ * A non-2xx response. Carries the `NETWORK` code until a caller maps it to
+ * something more specific (e.g. `CONFIG_NOT_FOUND` for a 404 config).
+ */
+export class HttpError extends NetworkError {
+    public readonly status: number;
+
+    constructor(message: string, status: number, data: unknown) {
+        super(message, {
+            status,
+            data,
+            retryable: RETRYABLE_STATUSES.includes(status),
+        });
+        this.name = "HttpError";
+        this.status = status;
+    }
+}
+
+/**
+ * Maps a failure from a payment provider: a 4xx answer to a payment request
+ * means the server rejected the payment
+ */
+export function toPaymentError(error: unknown): Pay2NatureError {
+    if (error instanceof HttpError && !error.retryable && error.status < 500) {
+        return new PaymentRejectedError(error.message, {
+            status: error.status,
+            data: error.data,
+            cause: error,
+        });
+    }
+    return Pay2NatureError.from(error);
+}
@@ -0,0 +1,129 @@
+/**
+ * Pay2Nature Events
+ * Strongly typed event map and a minimal multi-listener emitter
+ */
+
+import type { Pay2NatureError } from "./errors";
+import type { LogEntry } from "./logger";
+import type { Pay2NatureState } from "./Pay2NatureController";
+import type {
+    ConfirmedContribution,
+    ContributionData,
+    ContributionFrequency,
+    ContributionSelection,
+    PaymentMethod,
+    PaymentStatusData,
+    WidgetConfig,
+} from "./types";
+
+export interface AmountChangeEvent {
+    amount: number;
+    currency: string;
+    isCustom: boolean;
+    isValid: boolean;
+}
+
+export interface ContributionStartEvent {
+    amount: number;
+    currency: string;
+    paymentMethod: PaymentMethod;
+    frequency: ContributionFrequency;
+    projectId?: string;
+}
+
+export interface Pay2NatureEventMap {
+    ready: Pay2NatureState;
+    configLoaded: WidgetConfig;
+    amountChange: AmountChangeEvent;
+    selectionChange: ContributionSelection;
+    contributionStart: ContributionStartEvent;
+    contribution: ContributionData;
+    contributionConfirmed: ConfirmedContribution;
+    paymentStatus: PaymentStatusData;
+    toggle: boolean;
+    error: Pay2NatureError;
+    // Log entries at or above the configured log level
+    log: LogEntry;
+    destroy: void;
+}
+
+export type Pay2NatureEventName = keyof Pay2NatureEventMap;
+
+export type Pay2NatureEventHandler<K extends Pay2NatureEventName> = (
+    payload: Pay2NatureEventMap[K]
+) => void;
+
+type Handler<T> = (payload: T) => void;
+
+export class EventEmitter<Events> {
+    private handlers: { [K in keyof Events]?: Set<Handler<Events[K]>> } = {};
+    private onListenerError: (event: keyof Events, error: unknown) => void;
+
+    /**
+     * `onListenerError` receives errors thrown by handlers, which never
+     * stop the other handlers (default: logged to the console)
+     */
+    constructor(onListenerError?: (event: keyof Events, error: unknown) => void) {
+        this.onListenerError =
+            onListenerError ||
+            ((event, error) =>
+                console.error(`Pay2Nature: "${String(event)}" listener threw:`, error));
+    }
+
+    /**
+     * Registers a handler for an event.
+     * Returns a function that removes the handler.
+     */
+    public on<K extends keyof Events>(
+        event: K,
+        handler: Handler<Events[K]>
+    ): () => void {
+        let set = this.handlers[event];
+        if (!set) {
+            set = new Set();
+            this.handlers[event] = set;
+        }
+        set.add(handler);
+        return () => this.off(event, handler);
+    }
+
+    public off<K extends keyof Events>(
+        event: K,
+        handler: Handler<Events[K]>
+    ): void {
+        this.handlers[event]?.delete(handler);
+    }
+
+    public once<K extends keyof Events>(
+        event: K,
+        handler: Handler<Events[K]>
+    ): () => void {
+        const wrapper: Handler<Events[K]> = (payload) => {
+            this.off(event, wrapper);
+            handler(payload);
+        };
+        return this.on(event, wrapper);
+    }
+
+    public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        const set = this.handlers[event];
+        if (!set) return;
+
+        // Copy so handlers can unsubscribe while being called
+        Array.from(set).forEach((handler) => {
+            try {
+                handler(payload);
+            } catch (error) {
+                this.onListenerError(event, error);
+            }
+        });
+    }
+
+    public listenerCount<K extends keyof Events>(event: K): number {
+        return this.handlers[event]?.size || 0;
+    }
+
+    public removeAllListeners(): void {
+        this.handlers = {};
+    }
+}
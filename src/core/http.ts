@@ -0,0 +1,256 @@
+/**
+ * Pay2Nature HTTP Client
+ * Shared by the configuration fetch and the payment providers: per-attempt
+ * timeouts, retries with backoff for idempotent requests, cancellation and
+ * tolerant parsing of response bodies
+ */
+
+import { HttpError, NetworkError, Pay2NatureError, TimeoutError } from "./errors";
+
+export type FetchFunction = (
+    input: string,
+    init?: RequestInit
+) => Promise<Response>;
+
+export interface HttpClientOptions {
+    fetch?: FetchFunction; // Default: the global fetch
+    timeout?: number; // Default: 15000ms per attempt
+    retries?: number; // Default: 2, idempotent requests only
+    retryDelay?: number; // Default: 500ms, doubled after each retry
+}
+
+export interface HttpRequestOptions {
+    method?: string;
+    body?: unknown; // Sent as JSON
+    headers?: Record<string, string>;
+    signal?: AbortSignal;
+    // Whether the request can safely be repeated. Default: true for GET
+    idempotent?: boolean;
+    timeout?: number;
+    retries?: number;
+    // Extra fetch options, e.g. `{ next: { revalidate: 60 } }` in Next.js
+    init?: RequestInit;
+}
+
+const DEFAULT_TIMEOUT = 15000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 500;
+
+// Only http(s) URLs from the API may reach window.open(), iframes or links
+export function isHttpUrl(url: string): boolean {
+    return /^https?:\/\//i.test(url);
+}
+
+export function isAbortError(error: unknown): boolean {
+    return error instanceof Error && error.name === "AbortError";
+}
+
+function isRetryable(error: unknown): boolean {
+    return error instanceof Pay2NatureError && error.retryable;
+}
+
+function createAbortError(): Error {
+    const error = new Error("Pay2Nature: request aborted");
+    error.name = "AbortError";
+    return error;
+}
+
+function parseBody(text: string): unknown {
+    if (!text) return null;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * Picks a readable message from an error response, which may be JSON,
+ * plain text or an HTML error page
+ */
+function getErrorMessage(data: unknown, response: Response): string {
+    if (data && typeof data === "object") {
+        const { message, error } = data as { message?: unknown; error?: unknown };
+        if (typeof message === "string" && message) return message;
+        if (typeof error === "string" && error) return error;
+    }
+    if (typeof data === "string" && data && !data.trimStart().startsWith("<")) {
+        return data.length > 200 ? `${data.slice(0, 200)}...` : data;
+    }
+    return `HTTP ${response.status}: ${response.statusText}`;
+}
+
+export class HttpClient {
+    private options: HttpClientOptions;
+    private signal: AbortSignal | undefined;
+
+    constructor(options: HttpClientOptions = {}, signal?: AbortSignal) {
+        this.options = options;
+        this.signal = signal;
+    }
+
+    /**
+     * Returns a client with the same options whose requests are all
+     * cancelled when `signal` aborts
+     */
+    public withSignal(signal: AbortSignal): HttpClient {
+        return new HttpClient(this.options, signal);
+    }
+
+    public get<T = unknown>(
+        url: string,
+        options: HttpRequestOptions = {}
+    ): Promise<T> {
+        return this.request<T>(url, { ...options, method: "GET" });
+    }
+
+    public post<T = unknown>(
+        url: string,
+        body: unknown,
+        options: HttpRequestOptions = {}
+    ): Promise<T> {
+        return this.request<T>(url, { ...options, method: "POST", body });
+    }
+
+    /**
+     * Sends a request and resolves with the parsed JSON body. Rejects with
+     * an `HttpError` for non-2xx responses, a `NetworkError` when the
+     * request can't be sent, a `TimeoutError` when an attempt takes too long
+     * and an error named `AbortError` when cancelled.
+     */
+    public async request<T = unknown>(
+        url: string,
+        options: HttpRequestOptions = {}
+    ): Promise<T> {
+        const method = (options.method || "GET").toUpperCase();
+        const idempotent =
+            options.idempotent ?? (method === "GET" || method === "HEAD");
+        const retries = idempotent
+            ? (options.retries ?? this.options.retries ?? DEFAULT_RETRIES)
+            : 0;
+        let delay = this.options.retryDelay ?? DEFAULT_RETRY_DELAY;
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.attempt<T>(url, method, options);
+            } catch (error) {
+                if (
+                    attempt >= retries ||
+                    !isRetryable(error) ||
+                    this.isAborted(options.signal)
+                ) {
+                    throw error;
+                }
+            }
+
+            await this.wait(delay, options.signal);
+            delay *= 2;
+        }
+    }
+
+    private async attempt<T>(
+        url: string,
+        method: string,
+        options: HttpRequestOptions
+    ): Promise<T> {
+        if (this.isAborted(options.signal)) {
+            throw createAbortError();
+        }
+
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+        const signals = [this.signal, options.signal].filter(
+            (signal): signal is AbortSignal => !!signal
+        );
+        signals.forEach((signal) => signal.addEventListener("abort", abort));
+
+        const timeout = options.timeout ?? this.options.timeout ?? DEFAULT_TIMEOUT;
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeout);
+
+        const fetchFn: FetchFunction =
+            this.options.fetch || ((input, init) => fetch(input, init));
+        const hasBody = options.body !== undefined;
+
+        try {
+            const response = await fetchFn(url, {
+                ...options.init,
+                method,
+                headers: {
+                    ...(hasBody ? { "Content-Type": "application/json" } : {}),
+                    ...options.headers,
+                },
+                body: hasBody ? JSON.stringify(options.body) : undefined,
+                signal: controller.signal,
+            });
+
+            const data = parseBody(await response.text());
+
+            if (!response.ok) {
+                throw new HttpError(
+                    getErrorMessage(data, response),
+                    response.status,
+                    data
+                );
+            }
+
+            if (typeof data === "string") {
+                throw new NetworkError(
+                    `Pay2Nature: invalid JSON response from ${url}`,
+                    { status: response.status, data, retryable: false }
+                );
+            }
+
+            return data as T;
+        } catch (error) {
+            if (timedOut) {
+                throw new TimeoutError(
+                    `Pay2Nature: request timed out after ${timeout}ms`,
+                    { cause: error }
+                );
+            }
+            if (isAbortError(error) || controller.signal.aborted) {
+                throw createAbortError();
+            }
+            if (error instanceof Pay2NatureError) {
+                throw error;
+            }
+            // fetch rejects with a TypeError when the request can't be sent
+            throw new NetworkError(
+                error instanceof Error ? error.message : "Pay2Nature: network error",
+                { cause: error }
+            );
+        } finally {
+            clearTimeout(timer);
+            signals.forEach((signal) =>
+                signal.removeEventListener("abort", abort)
+            );
+        }
+    }
+
+    private isAborted(signal: AbortSignal | undefined): boolean {
+        return !!(this.signal?.aborted || signal?.aborted);
+    }
+
+    private wait(delay: number, signal: AbortSignal | undefined): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const signals = [this.signal, signal].filter(
+                (item): item is AbortSignal => !!item
+            );
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(createAbortError());
+            };
+            const timer = setTimeout(() => {
+                signals.forEach((item) =>
+                    item.removeEventListener("abort", onAbort)
+                );
+                resolve();
+            }, delay);
+            signals.forEach((item) => item.addEventListener("abort", onAbort));
+        });
+    }
+}
@@ -0,0 +1,387 @@
+/**
+ * Pay2Nature Widget Localization
+ * Bundled message catalogs, user overrides and message interpolation
+ */
+
+export interface WidgetMessages {
+    loadingTitle: string;
+    loadingDetail: string;
+    errorTitle: string;
+    noActiveProjects: string;
+    subtitle: string;
+    description: string;
+    descriptionWithProject: string;
+    roundUpDescription: string;
+    roundUpDescriptionWithProject: string;
+    amountLabel: string;
+    optInLabel: string;
+    customLabel: string;
+    contribute: string;
+    contributeMonthly: string;
+    minimum: string;
+    processing: string;
+    paymentError: string;
+    openingPayment: string;
+    openingPaymentForProject: string;
+    popupBlocked: string;
+    openPaymentPage: string;
+    checkoutTitle: string;
+    testBadge: string;
+    testBadgeLabel: string;
+    closeCheckout: string;
+    checkoutFallback: string;
+    confirmingPayment: string;
+    thankYouTitle: string;
+    thankYouDetail: string;
+    thankYouDetailWithProject: string;
+    thankYouPendingDetail: string;
+    viewReceipt: string;
+    contributeAgain: string;
+    amountTooLow: string;
+    paymentPending: string;
+    paymentPendingDetail: string;
+    paymentApproved: string;
+    paymentFailed: string;
+    paymentExpired: string;
+    projectLabel: string;
+    frequencyLabel: string;
+    frequencyOneTime: string;
+    frequencyMonthly: string;
+    paymentMethodLabel: string;
+    paymentMethodStripe: string;
+    paymentMethodMobileMoney: string;
+    mobileMoneyTitle: string;
+    mobileMoneyNetwork: string;
+    mobileMoneyNumber: string;
+    mobileMoneyName: string;
+    mobileMoneyAnonymous: string;
+    mobileMoneyCancel: string;
+    mobileMoneySubmit: string;
+    mobileMoneyNetworkRequired: string;
+    mobileMoneyNumberRequired: string;
+    mobileMoneyNumberInvalid: string;
+    mobileMoneyNameRequired: string;
+}
+
+export type MessageCatalogs = Record<string, Partial<WidgetMessages>>;
+
+export type TextDirection = "ltr" | "rtl";
+
+export const DEFAULT_LOCALE = "en";
+
+const en: WidgetMessages = {
+    loadingTitle: "Loading widget configuration...",
+    loadingDetail: "Please wait",
+    errorTitle: "Configuration Error",
+    noActiveProjects:
+        "Configuration Error: No active projects found. Please ensure you have at least one active project before using the widget.",
+    subtitle: "Powered by Indelible",
+    description:
+        "Add a small contribution to verified nature projects. Your contribution goes directly to conservation efforts.",
+    descriptionWithProject:
+        "Add a small contribution to verified nature projects. Your contribution goes directly to conservation efforts in project {project}.",
+    roundUpDescription:
+        "Round up your order from {orderTotal} to {total}. Your contribution goes directly to verified nature projects.",
+    roundUpDescriptionWithProject:
+        "Round up your order from {orderTotal} to {total}. Your contribution goes directly to conservation efforts in project {project}.",
+    amountLabel: "Contribution amount",
+    optInLabel: "Add {amount} for nature to my order",
+    customLabel: "Custom:",
+    contribute: "Contribute {amount}",
+    contributeMonthly: "Contribute {amount} monthly",
+    minimum: "Minimum {amount}",
+    processing: "Processing...",
+    paymentError: "Payment Error - Try Again",
+    openingPayment: "✓ Opening payment...",
+    openingPaymentForProject: "✓ Opening payment for {project}...",
+    popupBlocked: "Your browser blocked the payment window.",
+    openPaymentPage: "Open payment page",
+    checkoutTitle: "Secure payment",
+    testBadge: "TEST",
+    testBadgeLabel: "Test mode: no real payments are made",
+    closeCheckout: "Close payment",
+    checkoutFallback: "Page not loading? Open it in a new tab",
+    confirmingPayment: "Confirming your payment...",
+    thankYouTitle: "Thank you!",
+    thankYouDetail: "Your contribution of {amount} was received.",
+    thankYouDetailWithProject: "Your contribution of {amount} to {project} was received.",
+    thankYouPendingDetail: "Your contribution of {amount} is being processed.",
+    viewReceipt: "View receipt",
+    contributeAgain: "Contribute again",
+    amountTooLow: "Amount must be at least {amount}",
+    paymentPending: "Waiting for approval...",
+    paymentPendingDetail:
+        "Approve the payment prompt on your phone to complete your contribution.",
+    paymentApproved: "✓ Payment received - Thank you!",
+    paymentFailed: "Payment Failed - Try Again",
+    paymentExpired: "Payment Request Expired - Try Again",
+    projectLabel: "Support:",
+    frequencyLabel: "Give:",
+    frequencyOneTime: "One-time",
+    frequencyMonthly: "Monthly",
+    paymentMethodLabel: "Pay with:",
+    paymentMethodStripe: "Card",
+    paymentMethodMobileMoney: "Mobile Money",
+    mobileMoneyTitle: "Pay with Mobile Money",
+    mobileMoneyNetwork: "Network",
+    mobileMoneyNumber: "Mobile money number",
+    mobileMoneyName: "Your name",
+    mobileMoneyAnonymous: "Contribute anonymously",
+    mobileMoneyCancel: "Cancel",
+    mobileMoneySubmit: "Pay {amount}",
+    mobileMoneyNetworkRequired: "Select your mobile money network.",
+    mobileMoneyNumberRequired: "Enter your mobile money number.",
+    mobileMoneyNumberInvalid: "Enter a valid {network} number, e.g. {example}.",
+    mobileMoneyNameRequired: "Enter your name or choose to contribute anonymously.",
+};
+
+const fr: WidgetMessages = {
+    loadingTitle: "Chargement de la configuration du widget...",
+    loadingDetail: "Veuillez patienter",
+    errorTitle: "Erreur de configuration",
+    noActiveProjects:
+        "Erreur de configuration : aucun projet actif trouvé. Veuillez vous assurer d'avoir au moins un projet actif avant d'utiliser le widget.",
+    subtitle: "Propulsé par Indelible",
+    description:
+        "Ajoutez une petite contribution à des projets nature vérifiés. Votre contribution va directement aux actions de conservation.",
+    descriptionWithProject:
+        "Ajoutez une petite contribution à des projets nature vérifiés. Votre contribution va directement aux actions de conservation du projet {project}.",
+    roundUpDescription:
+        "Arrondissez votre commande de {orderTotal} à {total}. Votre contribution va directement à des projets nature vérifiés.",
+    roundUpDescriptionWithProject:
+        "Arrondissez votre commande de {orderTotal} à {total}. Votre contribution va directement aux actions de conservation du projet {project}.",
+    amountLabel: "Montant de la contribution",
+    optInLabel: "Ajouter {amount} pour la nature à ma commande",
+    customLabel: "Autre :",
+    contribute: "Contribuer {amount}",
+    contributeMonthly: "Contribuer {amount} par mois",
+    minimum: "Minimum {amount}",
+    processing: "Traitement en cours...",
+    paymentError: "Erreur de paiement - Réessayer",
+    openingPayment: "✓ Ouverture du paiement...",
+    openingPaymentForProject: "✓ Ouverture du paiement pour {project}...",
+    popupBlocked: "Votre navigateur a bloqué la fenêtre de paiement.",
+    openPaymentPage: "Ouvrir la page de paiement",
+    checkoutTitle: "Paiement sécurisé",
+    testBadge: "TEST",
+    testBadgeLabel: "Mode test : aucun paiement réel n'est effectué",
+    closeCheckout: "Fermer le paiement",
+    checkoutFallback: "La page ne se charge pas ? Ouvrez-la dans un nouvel onglet",
+    confirmingPayment: "Confirmation de votre paiement...",
+    thankYouTitle: "Merci !",
+    thankYouDetail: "Votre contribution de {amount} a bien été reçue.",
+    thankYouDetailWithProject: "Votre contribution de {amount} au projet {project} a bien été reçue.",
+    thankYouPendingDetail: "Votre contribution de {amount} est en cours de traitement.",
+    viewReceipt: "Voir le reçu",
+    contributeAgain: "Contribuer à nouveau",
+    amountTooLow: "Le montant doit être d'au moins {amount}",
+    paymentPending: "En attente d'approbation...",
+    paymentPendingDetail:
+        "Approuvez la demande de paiement sur votre téléphone pour finaliser votre contribution.",
+    paymentApproved: "✓ Paiement reçu - Merci !",
+    paymentFailed: "Paiement échoué - Réessayer",
+    paymentExpired: "Demande de paiement expirée - Réessayer",
+    projectLabel: "Soutenir :",
+    frequencyLabel: "Fréquence :",
+    frequencyOneTime: "Une fois",
+    frequencyMonthly: "Mensuel",
+    paymentMethodLabel: "Payer par :",
+    paymentMethodStripe: "Carte",
+    paymentMethodMobileMoney: "Mobile Money",
+    mobileMoneyTitle: "Payer par Mobile Money",
+    mobileMoneyNetwork: "Réseau",
+    mobileMoneyNumber: "Numéro Mobile Money",
+    mobileMoneyName: "Votre nom",
+    mobileMoneyAnonymous: "Contribuer anonymement",
+    mobileMoneyCancel: "Annuler",
+    mobileMoneySubmit: "Payer {amount}",
+    mobileMoneyNetworkRequired: "Sélectionnez votre réseau Mobile Money.",
+    mobileMoneyNumberRequired: "Saisissez votre numéro Mobile Money.",
+    mobileMoneyNumberInvalid: "Saisissez un numéro {network} valide, par ex. {example}.",
+    mobileMoneyNameRequired: "Saisissez votre nom ou choisissez de contribuer anonymement.",
+};
+
+const sw: WidgetMessages = {
+    loadingTitle: "Inapakia mipangilio ya wijeti...",
+    loadingDetail: "Tafadhali subiri",
+    errorTitle: "Hitilafu ya Mipangilio",
+    noActiveProjects:
+        "Hitilafu ya Mipangilio: Hakuna miradi hai iliyopatikana. Tafadhali hakikisha una angalau mradi mmoja hai kabla ya kutumia wijeti.",
+    subtitle: "Inaendeshwa na Indelible",
+    description:
+        "Ongeza mchango mdogo kwa miradi ya mazingira iliyothibitishwa. Mchango wako unaenda moja kwa moja kwenye juhudi za uhifadhi.",
+    descriptionWithProject:
+        "Ongeza mchango mdogo kwa miradi ya mazingira iliyothibitishwa. Mchango wako unaenda moja kwa moja kwenye juhudi za uhifadhi katika mradi {project}.",
+    roundUpDescription:
+        "Ongeza oda yako kutoka {orderTotal} hadi {total}. Mchango wako unaenda moja kwa moja kwenye miradi ya mazingira iliyothibitishwa.",
+    roundUpDescriptionWithProject:
+        "Ongeza oda yako kutoka {orderTotal} hadi {total}. Mchango wako unaenda moja kwa moja kwenye juhudi za uhifadhi katika mradi {project}.",
+    amountLabel: "Kiasi cha mchango",
+    optInLabel: "Ongeza {amount} kwa ajili ya mazingira kwenye oda yangu",
+    customLabel: "Kiasi kingine:",
+    contribute: "Changia {amount}",
+    contributeMonthly: "Changia {amount} kila mwezi",
+    minimum: "Kiwango cha chini {amount}",
+    processing: "Inashughulikiwa...",
+    paymentError: "Hitilafu ya Malipo - Jaribu Tena",
+    openingPayment: "✓ Inafungua malipo...",
+    openingPaymentForProject: "✓ Inafungua malipo ya {project}...",
+    popupBlocked: "Kivinjari chako kimezuia dirisha la malipo.",
+    openPaymentPage: "Fungua ukurasa wa malipo",
+    checkoutTitle: "Malipo salama",
+    testBadge: "MAJARIBIO",
+    testBadgeLabel: "Hali ya majaribio: hakuna malipo halisi yanayofanywa",
+    closeCheckout: "Funga malipo",
+    checkoutFallback: "Ukurasa haufunguki? Ufungue kwenye kichupo kipya",
+    confirmingPayment: "Tunathibitisha malipo yako...",
+    thankYouTitle: "Asante!",
+    thankYouDetail: "Mchango wako wa {amount} umepokelewa.",
+    thankYouDetailWithProject: "Mchango wako wa {amount} kwa {project} umepokelewa.",
+    thankYouPendingDetail: "Mchango wako wa {amount} unashughulikiwa.",
+    viewReceipt: "Tazama risiti",
+    contributeAgain: "Changia tena",
+    amountTooLow: "Kiasi lazima kiwe angalau {amount}",
+    paymentPending: "Inasubiri idhini...",
+    paymentPendingDetail:
+        "Idhinisha ombi la malipo kwenye simu yako ili kukamilisha mchango wako.",
+    paymentApproved: "✓ Malipo yamepokelewa - Asante!",
+    paymentFailed: "Malipo Yameshindikana - Jaribu Tena",
+    paymentExpired: "Ombi la Malipo Limeisha Muda - Jaribu Tena",
+    projectLabel: "Saidia:",
+    frequencyLabel: "Mara ngapi:",
+    frequencyOneTime: "Mara moja",
+    frequencyMonthly: "Kila mwezi",
+    paymentMethodLabel: "Lipa kwa:",
+    paymentMethodStripe: "Kadi",
+    paymentMethodMobileMoney: "Pesa za Simu",
+    mobileMoneyTitle: "Lipa kwa Pesa za Simu",
+    mobileMoneyNetwork: "Mtandao",
+    mobileMoneyNumber: "Namba ya pesa za simu",
+    mobileMoneyName: "Jina lako",
+    mobileMoneyAnonymous: "Changia bila kujulikana",
+    mobileMoneyCancel: "Ghairi",
+    mobileMoneySubmit: "Lipa {amount}",
+    mobileMoneyNetworkRequired: "Chagua mtandao wako wa pesa za simu.",
+    mobileMoneyNumberRequired: "Weka namba yako ya pesa za simu.",
+    mobileMoneyNumberInvalid: "Weka namba sahihi ya {network}, mfano {example}.",
+    mobileMoneyNameRequired: "Weka jina lako au chagua kuchangia bila kujulikana.",
+};
+
+const tw: WidgetMessages = {
+    loadingTitle: "Ɛreloade widget no nhyehyɛe...",
+    loadingDetail: "Mesrɛ wo, twɛn kakra",
+    errorTitle: "Nhyehyɛe mu Mfomsoɔ",
+    noActiveProjects:
+        "Nhyehyɛe mu Mfomsoɔ: Yɛanhu adwuma biara a ɛkɔ so. Mesrɛ wo, hwɛ sɛ wowɔ adwuma baako a ɛkɔ so ansa na wode widget no adi dwuma.",
+    subtitle: "Indelible na ɛyɛɛ",
+    description:
+        "Fa ntoboa ketewa ka abɔdeɛ nnwuma a yɛasi so dua ho. Wo ntoboa kɔ abɔdeɛ bammɔ adwuma mu tẽẽ.",
+    descriptionWithProject:
+        "Fa ntoboa ketewa ka abɔdeɛ nnwuma a yɛasi so dua ho. Wo ntoboa kɔ abɔdeɛ bammɔ adwuma {project} mu tẽẽ.",
+    roundUpDescription:
+        "Ma wo adetɔ sika no nkɔ soro firi {orderTotal} kɔsi {total}. Wo ntoboa kɔ abɔdeɛ nnwuma a yɛasi so dua ho tẽẽ.",
+    roundUpDescriptionWithProject:
+        "Ma wo adetɔ sika no nkɔ soro firi {orderTotal} kɔsi {total}. Wo ntoboa kɔ abɔdeɛ bammɔ adwuma {project} mu tẽẽ.",
+    amountLabel: "Sika dodoɔ a wobɛtua",
+    optInLabel: "Fa {amount} ma abɔdeɛ ka me adetɔ ho",
+    customLabel: "Foforɔ:",
+    contribute: "Boa {amount}",
+    contributeMonthly: "Boa {amount} ɔsram biara",
+    minimum: "Ketewa koraa {amount}",
+    processing: "Ɛrekɔ so...",
+    paymentError: "Sika tua mu mfomsoɔ - San bɔ mmɔden",
+    openingPayment: "✓ Ɛrebue sika tua...",
+    openingPaymentForProject: "✓ Ɛrebue sika tua ma {project}...",
+    popupBlocked: "Wo browser asiw sika tua window no.",
+    openPaymentPage: "Bue sika tua krataafa no",
+    checkoutTitle: "Sika tua a ahobammɔ wom",
+    testBadge: "SƆHWƐ",
+    testBadgeLabel: "Sɔhwɛ kwan so: wontua sika ankasa biara",
+    closeCheckout: "To sika tua no mu",
+    checkoutFallback: "Krataafa no mmue? Bue no wɔ tab foforo mu",
+    confirmingPayment: "Yɛresi wo sika tua no so dua...",
+    thankYouTitle: "Yɛda wo ase!",
+    thankYouDetail: "Yɛanya wo ntoboa {amount} no.",
+    thankYouDetailWithProject: "Yɛanya wo ntoboa {amount} a ɛma {project} no.",
+    thankYouPendingDetail: "Yɛreyɛ wo ntoboa {amount} no ho adwuma.",
+    viewReceipt: "Hwɛ receipt no",
+    contributeAgain: "Bɔ ntoboa bio",
+    amountTooLow: "Sika no nsua nsen {amount}",
+    paymentPending: "Yɛretwɛn wo mpene...",
+    paymentPendingDetail:
+        "Pene sika tua no so wɔ wo fon so na wo ntoboa no awie.",
+    paymentApproved: "✓ Yɛanya sika no - Meda wo ase!",
+    paymentFailed: "Sika tua no anyɛ yie - San bɔ mmɔden",
+    paymentExpired: "Sika tua abisadeɛ no bere atwam - San bɔ mmɔden",
+    projectLabel: "Boa:",
+    frequencyLabel: "Mpɛn ahe:",
+    frequencyOneTime: "Prɛko pɛ",
+    frequencyMonthly: "Ɔsram biara",
+    paymentMethodLabel: "Fa tua:",
+    paymentMethodStripe: "Kaad",
+    paymentMethodMobileMoney: "Mobile Money",
+    mobileMoneyTitle: "Fa Mobile Money tua",
+    mobileMoneyNetwork: "Network",
+    mobileMoneyNumber: "Mobile money nɔma",
+    mobileMoneyName: "Wo din",
+    mobileMoneyAnonymous: "Boa a wɔnnim wo",
+    mobileMoneyCancel: "Gyae",
+    mobileMoneySubmit: "Tua {amount}",
+    mobileMoneyNetworkRequired: "Yi wo mobile money network.",
+    mobileMoneyNumberRequired: "Kyerɛw wo mobile money nɔma.",
+    mobileMoneyNumberInvalid: "Kyerɛw {network} nɔma a ɛyɛ papa, te sɛ {example}.",
+    mobileMoneyNameRequired: "Kyerɛw wo din anaa yi sɛ wobɛboa a wɔnnim wo.",
+};
+
+export const BUNDLED_CATALOGS: Record<string, WidgetMessages> = {
+    en,
+    fr,
+    sw,
+    tw,
+    ak: tw,
+};
+
+const RTL_LANGUAGES = ["ar", "he", "fa", "ur", "ps", "dv", "yi", "ckb", "sd", "ug"];
+
+function languageOf(locale: string): string {
+    return locale.toLowerCase().split(/[-_]/)[0];
+}
+
+/**
+ * Resolves the messages for a locale by layering, from lowest to highest
+ * priority: English, the bundled language catalog, the bundled exact-locale
+ * catalog, then user overrides for the language and for the exact locale
+ */
+export function resolveMessages(
+    locale: string,
+    overrides: MessageCatalogs = {}
+): WidgetMessages {
+    const exact = locale.toLowerCase();
+    const language = languageOf(locale);
+    const findOverride = (key: string) =>
+        Object.keys(overrides).find((name) => name.toLowerCase() === key);
+
+    const languageOverride = findOverride(language);
+    const exactOverride = exact !== language ? findOverride(exact) : undefined;
+
+    return {
+        ...en,
+        ...BUNDLED_CATALOGS[language],
+        ...BUNDLED_CATALOGS[exact],
+        ...(languageOverride ? overrides[languageOverride] : {}),
+        ...(exactOverride ? overrides[exactOverride] : {}),
+    };
+}
+
+export function formatMessage(
+    template: string,
+    params: Record<string, string | number> = {}
+): string {
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+        name in params ? String(params[name]) : match
+    );
+}
+
+export function getTextDirection(locale: string): TextDirection {
+    return RTL_LANGUAGES.includes(languageOf(locale)) ? "rtl" : "ltr";
+}
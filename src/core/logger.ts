@@ -0,0 +1,149 @@
+/**
+ * Pay2Nature Logging
+ * Structured log entries tagged with the widget instance, filtered by level
+ * and written to the console or to a logger supplied by the host
+ */
+
+export type LogLevel = "silent" | "error" | "warn" | "info" | "debug";
+
+export interface LogEntry {
+    level: Exclude<LogLevel, "silent">;
+    message: string;
+    // Tells widgets on the same page apart, e.g. "p2n-2"
+    instanceId: string;
+    widgetToken: string;
+    timestamp: number;
+    // Structured details, e.g. the method, URL and status of an API call
+    data?: Record<string, unknown>;
+    error?: unknown;
+}
+
+export interface Pay2NatureLogger {
+    log(entry: LogEntry): void;
+}
+
+export interface LoggerOptions {
+    instanceId: string;
+    widgetToken: string;
+    // Entries below this level are dropped (default: "warn")
+    level?: LogLevel;
+    // Where entries are written (default: consoleLogger)
+    logger?: Pay2NatureLogger;
+    // Called with every entry that is written
+    onEntry?: (entry: LogEntry) => void;
+}
+
+// An API call made by a widget, as shown in the diagnostics panel
+export interface ApiRequestLog {
+    method: string;
+    url: string;
+    // HTTP status, or null when no response arrived
+    status: number | null;
+    // Milliseconds until the response headers arrived or the request failed
+    duration: number;
+    error?: string;
+}
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+    silent: 0,
+    error: 1,
+    warn: 2,
+    info: 3,
+    debug: 4,
+};
+
+export const DEFAULT_LOG_LEVEL: LogLevel = "warn";
+
+/**
+ * Writes entries to the console as `Pay2Nature [p2n-1]: message`, followed
+ * by the entry's data and error
+ */
+export const consoleLogger: Pay2NatureLogger = {
+    log(entry) {
+        if (typeof console === "undefined") return;
+        const args: unknown[] = [`Pay2Nature [${entry.instanceId}]: ${entry.message}`];
+        if (entry.data) args.push(entry.data);
+        if (entry.error !== undefined) args.push(entry.error);
+        console[entry.level](...args);
+    },
+};
+
+let instanceCount = 0;
+
+export function createInstanceId(): string {
+    instanceCount++;
+    return `p2n-${instanceCount}`;
+}
+
+export class Logger {
+    private options: LoggerOptions;
+    private level: LogLevel;
+    private sink: Pay2NatureLogger;
+    private isNotifying: boolean = false;
+
+    constructor(options: LoggerOptions) {
+        this.options = options;
+        this.level = options.level || DEFAULT_LOG_LEVEL;
+        this.sink = options.logger || consoleLogger;
+    }
+
+    // Swaps where entries are written; consoleLogger when none is given
+    public setLogger(logger: Pay2NatureLogger | undefined): void {
+        this.sink = logger || consoleLogger;
+    }
+
+    public isEnabled(level: Exclude<LogLevel, "silent">): boolean {
+        return LEVEL_PRIORITY[level] <= LEVEL_PRIORITY[this.level];
+    }
+
+    public error(message: string, error?: unknown, data?: Record<string, unknown>): void {
+        this.write("error", message, data, error);
+    }
+
+    public warn(message: string, error?: unknown, data?: Record<string, unknown>): void {
+        this.write("warn", message, data, error);
+    }
+
+    public info(message: string, data?: Record<string, unknown>): void {
+        this.write("info", message, data);
+    }
+
+    public debug(message: string, data?: Record<string, unknown>): void {
+        this.write("debug", message, data);
+    }
+
+    private write(
+        level: LogEntry["level"],
+        message: string,
+        data?: Record<string, unknown>,
+        error?: unknown
+    ): void {
+        if (!this.isEnabled(level)) return;
+
+        const entry: LogEntry = {
+            level,
+            message,
+            instanceId: this.options.instanceId,
+            widgetToken: this.options.widgetToken,
+            timestamp: Date.now(),
+        };
+        if (data) entry.data = data;
+        if (error !== undefined) entry.error = error;
+
+        try {
+            this.sink.log(entry);
+        } catch {
+            // A failing host logger must not break the widget
+        }
+
+        // Entries logged while notifying (e.g. a listener that threw) are
+        // only written, so they can't loop back into the listener
+        if (!this.options.onEntry || this.isNotifying) return;
+        this.isNotifying = true;
+        try {
+            this.options.onEntry(entry);
+        } finally {
+            this.isNotifying = false;
+        }
+    }
+}
@@ -0,0 +1,383 @@
+/**
+ * Pay2Nature Offline API
+ * An in-process stand-in for the widget API: answers the configuration,
+ * Stripe and mobile money routes from fixture configurations with scripted
+ * outcomes. Backs the "offline" environment, and the testing entry's mock
+ * server builds on it.
+ */
+
+import type { FetchFunction } from "./http";
+import type { PaymentStatus } from "./paymentStatus";
+import type { WidgetConfig } from "./types";
+
+export type OfflineScenario =
+    // Every route succeeds
+    | "success"
+    // The configuration route answers 404
+    | "not-found"
+    // The configuration has no active projects
+    | "no-active-projects"
+    // The Stripe and mobile money payment routes answer 400
+    | "payment-failure"
+    // Every response is delayed by `slowNetworkDelay`
+    | "slow-network";
+
+export type OfflineRoute =
+    | "config"
+    | "stripe/create-payment-link"
+    | "stripe/confirm-payment"
+    | "mobileMoney/initiate-payment"
+    | "mobileMoney/payment-status";
+
+export interface OfflineRequest {
+    route: OfflineRoute | null;
+    method: string;
+    url: string;
+    widgetToken: string | null;
+    // Parsed JSON body of POST requests
+    body: unknown;
+}
+
+export interface OfflineApiOptions {
+    scenario?: OfflineScenario;
+    // Merged into DEFAULT_OFFLINE_CONFIG
+    config?: Partial<WidgetConfig>;
+    // Status reported by the mobile money status and Stripe confirmation routes (default: "approved")
+    paymentStatus?: PaymentStatus;
+    // Mobile money status checks answered with "pending" before `paymentStatus`,
+    // per payment (default: 0)
+    pendingStatusChecks?: number;
+    // Milliseconds every response takes (default: 0)
+    latency?: number;
+    // Milliseconds responses take in the "slow-network" scenario (default: 20000,
+    // longer than the SDK's 15 second request timeout)
+    slowNetworkDelay?: number;
+}
+
+export interface OfflineApi {
+    fetch: FetchFunction;
+    // Every request received, oldest first
+    requests: OfflineRequest[];
+    setScenario(scenario: OfflineScenario): void;
+    setConfig(config: Partial<WidgetConfig>): void;
+    setPaymentStatus(status: PaymentStatus): void;
+    // Clears the recorded requests and restores the initial options
+    reset(): void;
+}
+
+export type OfflineFixtureName =
+    // A single project paid by card in USD
+    | "default"
+    // Mobile money in GHS, with card as an alternative
+    | "mobile-money"
+    // Three projects to choose between
+    | "projects"
+    // One-time and monthly contributions
+    | "monthly"
+    // The configuration has no active projects (NO_ACTIVE_PROJECTS)
+    | "no-active-projects"
+    // The configuration is missing (CONFIG_NOT_FOUND)
+    | "not-found";
+
+export type OfflinePaymentOutcome =
+    | "approved"
+    | "failed"
+    | "expired"
+    // The payment can't be created at all (PAYMENT_REJECTED)
+    | "rejected";
+
+export interface OfflineOptions {
+    // Configuration served (default: the fixture the widget token names, else "default")
+    fixture?: OfflineFixtureName;
+    // Merged into the fixture's configuration
+    config?: Partial<WidgetConfig>;
+    // How simulated payments end (default: "approved")
+    paymentOutcome?: OfflinePaymentOutcome;
+    // Milliseconds every simulated request takes (default: 400)
+    latency?: number;
+    // Mobile money status checks that stay pending before the outcome (default: 1)
+    pendingStatusChecks?: number;
+}
+
+interface OfflineFixture {
+    config: WidgetConfig;
+    scenario?: OfflineScenario;
+}
+
+export const DEFAULT_OFFLINE_CONFIG: WidgetConfig = {
+    currency: "USD",
+    currencySymbol: "$",
+    minAmount: 1,
+    maxAmount: 10,
+    defaultAmount: 2,
+    activeProjectName: "Mangrove Restoration",
+    hasActiveProjects: true,
+};
+
+export const OFFLINE_FIXTURES: Record<OfflineFixtureName, OfflineFixture> = {
+    default: { config: DEFAULT_OFFLINE_CONFIG },
+    "mobile-money": {
+        config: {
+            currency: "GHS",
+            currencySymbol: "GH₵",
+            minAmount: 1,
+            maxAmount: 50,
+            defaultAmount: 5,
+            activeProjectName: "Volta Basin Reforestation",
+            hasActiveProjects: true,
+            paymentMethods: ["mobile-money", "stripe"],
+        },
+    },
+    projects: {
+        config: {
+            ...DEFAULT_OFFLINE_CONFIG,
+            projects: [
+                { id: "mangroves", name: "Mangrove Restoration" },
+                { id: "peatlands", name: "Peatland Protection" },
+                { id: "kelp", name: "Kelp Forest Regrowth" },
+            ],
+        },
+    },
+    monthly: {
+        config: { ...DEFAULT_OFFLINE_CONFIG, frequencies: ["one-time", "monthly"] },
+    },
+    "no-active-projects": {
+        config: DEFAULT_OFFLINE_CONFIG,
+        scenario: "no-active-projects",
+    },
+    "not-found": { config: DEFAULT_OFFLINE_CONFIG, scenario: "not-found" },
+};
+
+export const OFFLINE_PAYMENT_URL = "https://checkout.pay2nature.test/session/cs_test_123";
+
+const OFFLINE_RECEIPT_URL = "https://checkout.pay2nature.test/receipt/cs_test_123";
+
+// Where simulated Stripe checkout sessions live
+const OFFLINE_SESSION_PATTERN = /\/session\/([^/?#]+)/;
+
+const ROUTE_PATTERN =
+    /\/api\/widget\/([^/]+)\/(config|stripe\/create-payment-link|stripe\/confirm-payment\/[^/]+|mobileMoney\/initiate-payment|mobileMoney\/payment-status\/[^/]+)$/;
+
+const DEFAULT_SLOW_NETWORK_DELAY = 20000;
+const DEFAULT_OFFLINE_LATENCY = 400;
+const DEFAULT_PENDING_STATUS_CHECKS = 1;
+
+function jsonResponse(status: number, body: unknown): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+function parseBody(body: RequestInit["body"]): unknown {
+    if (typeof body !== "string") return undefined;
+    try {
+        return JSON.parse(body);
+    } catch {
+        return body;
+    }
+}
+
+function getPathname(url: string): string | null {
+    try {
+        return new URL(url, "http://localhost").pathname;
+    } catch {
+        return null;
+    }
+}
+
+function matchRoute(url: string): { route: OfflineRoute; widgetToken: string } | null {
+    const pathname = getPathname(url);
+    const match = pathname ? ROUTE_PATTERN.exec(pathname) : null;
+    if (!match) return null;
+
+    const path = match[2];
+    const route = (
+        path.startsWith("stripe/confirm-payment/")
+            ? "stripe/confirm-payment"
+            : path.startsWith("mobileMoney/payment-status/")
+              ? "mobileMoney/payment-status"
+              : path
+    ) as OfflineRoute;
+    return { route, widgetToken: decodeURIComponent(match[1]) };
+}
+
+// Resolves after `delay`, or rejects like fetch when the request is aborted
+function wait(delay: number, signal: AbortSignal | null | undefined): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const abortError = () => new DOMException("The operation was aborted.", "AbortError");
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+        if (delay <= 0) {
+            resolve();
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, delay);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * Creates an in-process widget API. Routes are matched on their path, so
+ * any `baseUrl` works.
+ */
+export function createOfflineApi(options: OfflineApiOptions = {}): OfflineApi {
+    let scenario: OfflineScenario = options.scenario || "success";
+    let config: WidgetConfig = { ...DEFAULT_OFFLINE_CONFIG, ...options.config };
+    let paymentStatus: PaymentStatus = options.paymentStatus || "approved";
+    let paymentCount = 0;
+    // The confirmation route reports the amount last paid by card
+    let lastStripeAmount: number | null = null;
+    const statusChecks = new Map<string, number>();
+
+    const respond = (route: OfflineRoute | null, url: string, body: unknown): Response => {
+        const isPayment =
+            route === "stripe/create-payment-link" || route === "mobileMoney/initiate-payment";
+        if (isPayment && scenario === "payment-failure") {
+            return jsonResponse(400, { message: "The payment could not be created" });
+        }
+
+        const { projectId, amount } =
+            body && typeof body === "object"
+                ? (body as { projectId?: string; amount?: number })
+                : {};
+        const projectName =
+            config.projects?.find((project) => project.id === projectId)?.name ||
+            config.activeProjectName;
+
+        switch (route) {
+            case "config":
+                if (scenario === "not-found") {
+                    return jsonResponse(404, { message: "Widget not found" });
+                }
+                return jsonResponse(
+                    200,
+                    scenario === "no-active-projects"
+                        ? { ...config, activeProjectName: null, hasActiveProjects: false, projects: [] }
+                        : config
+                );
+            case "stripe/create-payment-link":
+                paymentCount++;
+                lastStripeAmount = typeof amount === "number" ? amount : null;
+                return jsonResponse(200, { paymentUrl: OFFLINE_PAYMENT_URL, projectName });
+            case "mobileMoney/initiate-payment":
+                paymentCount++;
+                return jsonResponse(200, { paymentToken: `mm_test_${paymentCount}` });
+            case "mobileMoney/payment-status": {
+                const pathname = getPathname(url) || "";
+                const paymentToken = pathname.slice(pathname.lastIndexOf("/") + 1);
+                const checks = (statusChecks.get(paymentToken) || 0) + 1;
+                statusChecks.set(paymentToken, checks);
+                const isPending = checks <= (options.pendingStatusChecks || 0);
+                return jsonResponse(200, { status: isPending ? "pending" : paymentStatus });
+            }
+            case "stripe/confirm-payment":
+                return jsonResponse(200, {
+                    status: paymentStatus,
+                    amount: lastStripeAmount ?? config.defaultAmount,
+                    currency: config.currency,
+                    projectName,
+                    receiptUrl: OFFLINE_RECEIPT_URL,
+                });
+            default:
+                return jsonResponse(404, { message: "Not found" });
+        }
+    };
+
+    const api: OfflineApi = {
+        requests: [],
+
+        async fetch(input, init = {}) {
+            const url = String(input);
+            const match = matchRoute(url);
+            const body = parseBody(init.body);
+            api.requests.push({
+                route: match?.route || null,
+                method: (init.method || "GET").toUpperCase(),
+                url,
+                widgetToken: match?.widgetToken || null,
+                body,
+            });
+
+            const delay =
+                scenario === "slow-network"
+                    ? options.slowNetworkDelay ?? DEFAULT_SLOW_NETWORK_DELAY
+                    : options.latency || 0;
+            await wait(delay, init.signal);
+
+            return respond(match?.route || null, url, body);
+        },
+
+        setScenario(next) {
+            scenario = next;
+        },
+
+        setConfig(next) {
+            config = { ...config, ...next };
+        },
+
+        setPaymentStatus(status) {
+            paymentStatus = status;
+        },
+
+        reset() {
+            api.requests.length = 0;
+            scenario = options.scenario || "success";
+            config = { ...DEFAULT_OFFLINE_CONFIG, ...options.config };
+            paymentStatus = options.paymentStatus || "approved";
+            paymentCount = 0;
+            lastStripeAmount = null;
+            statusChecks.clear();
+        },
+    };
+
+    return api;
+}
+
+function isOfflineFixtureName(name: string): name is OfflineFixtureName {
+    return Object.prototype.hasOwnProperty.call(OFFLINE_FIXTURES, name);
+}
+
+/**
+ * A fetch that answers the widget API in-process with an offline fixture.
+ * The fixture defaults to the one the widget token names, so e.g.
+ * `widgetToken: "mobile-money"` is enough to preview mobile money.
+ */
+export function createOfflineFetch(
+    widgetToken: string,
+    options: OfflineOptions = {}
+): FetchFunction {
+    const name =
+        options.fixture ||
+        (isOfflineFixtureName(widgetToken) ? widgetToken : "default");
+    const fixture = OFFLINE_FIXTURES[name];
+    const outcome = options.paymentOutcome || "approved";
+
+    return createOfflineApi({
+        scenario:
+            outcome === "rejected"
+                ? "payment-failure"
+                : fixture.scenario || "success",
+        config: { ...fixture.config, ...options.config },
+        paymentStatus: outcome === "rejected" ? "failed" : outcome,
+        pendingStatusChecks:
+            options.pendingStatusChecks ?? DEFAULT_PENDING_STATUS_CHECKS,
+        latency: options.latency ?? DEFAULT_OFFLINE_LATENCY,
+    }).fetch;
+}
+
+// The checkout session of a payment page served offline
+export function getOfflineSessionId(paymentUrl: string): string | null {
+    const match = OFFLINE_SESSION_PATTERN.exec(paymentUrl);
+    return match ? decodeURIComponent(match[1]) : null;
+}
@@ -0,0 +1,137 @@
+/**
+ * Pay2Nature Payment Return
+ * Builds the URLs a hosted payment page sends the donor back to, and reads
+ * them when the page loads again so the widget can confirm the payment
+ */
+
+import type { PaymentMethod } from "./types";
+
+export interface ReturnUrlOptions {
+    // Page the donor returns to after paying (default: the current page)
+    success?: string;
+    // Page the donor returns to after cancelling (default: the current page)
+    cancel?: string;
+}
+
+export interface PaymentReturnUrls {
+    success: string;
+    cancel: string;
+}
+
+export interface PaymentReturn {
+    outcome: "success" | "cancel";
+    paymentMethod: PaymentMethod;
+    amount: number | null;
+    // Checkout session to confirm, filled in by the payment page
+    sessionId: string | null;
+}
+
+const PARAMS = {
+    outcome: "p2n_return",
+    widget: "p2n_widget",
+    method: "p2n_method",
+    amount: "p2n_amount",
+    session: "p2n_session",
+};
+
+// Replaced with the checkout session id by Stripe when redirecting back;
+// appended unencoded so the placeholder survives
+const SESSION_PLACEHOLDER = "{CHECKOUT_SESSION_ID}";
+
+function getCurrentUrl(): URL | null {
+    if (typeof window === "undefined" || !window.location) return null;
+    try {
+        return new URL(window.location.href);
+    } catch {
+        return null;
+    }
+}
+
+function withoutReturnParams(url: URL): URL {
+    const clean = new URL(url.href);
+    Object.values(PARAMS).forEach((name) => clean.searchParams.delete(name));
+    return clean;
+}
+
+/**
+ * The success and cancel URLs for a contribution, tagged with the widget,
+ * payment method and amount. Null when there is no page to return to.
+ */
+export function buildReturnUrls(
+    options: ReturnUrlOptions,
+    widgetToken: string,
+    paymentMethod: PaymentMethod,
+    amount: number
+): PaymentReturnUrls | null {
+    const current = getCurrentUrl();
+
+    const build = (target: string | undefined, outcome: PaymentReturn["outcome"]) => {
+        let url: URL;
+        try {
+            url = target
+                ? new URL(target, current?.href)
+                : withoutReturnParams(current as URL);
+        } catch {
+            return null;
+        }
+        url.searchParams.set(PARAMS.outcome, outcome);
+        url.searchParams.set(PARAMS.widget, widgetToken);
+        url.searchParams.set(PARAMS.method, paymentMethod);
+        url.searchParams.set(PARAMS.amount, String(amount));
+        if (outcome === "cancel") return url.href;
+
+        // The placeholder goes before any fragment
+        const hash = url.hash;
+        url.hash = "";
+        return `${url.href}&${PARAMS.session}=${SESSION_PLACEHOLDER}${hash}`;
+    };
+
+    if (!current && !(options.success && options.cancel)) return null;
+
+    const success = build(options.success, "success");
+    const cancel = build(options.cancel, "cancel");
+    return success && cancel ? { success, cancel } : null;
+}
+
+/**
+ * The payment the donor just returned from, if the current URL carries the
+ * return parameters of this widget
+ */
+export function readPaymentReturn(widgetToken: string): PaymentReturn | null {
+    const url = getCurrentUrl();
+    if (!url || url.searchParams.get(PARAMS.widget) !== widgetToken) {
+        return null;
+    }
+
+    const outcome = url.searchParams.get(PARAMS.outcome);
+    const paymentMethod = url.searchParams.get(PARAMS.method);
+    if ((outcome !== "success" && outcome !== "cancel") || !paymentMethod) {
+        return null;
+    }
+
+    const amount = parseFloat(url.searchParams.get(PARAMS.amount) || "");
+    const sessionId = url.searchParams.get(PARAMS.session);
+    return {
+        outcome,
+        paymentMethod,
+        amount: isFinite(amount) ? amount : null,
+        // Left as is when the payment page did not fill it in
+        sessionId: sessionId && sessionId !== SESSION_PLACEHOLDER ? sessionId : null,
+    };
+}
+
+/**
+ * Removes the return parameters from the address bar, so reloading the
+ * page does not confirm the payment again
+ */
+export function clearPaymentReturn(): void {
+    const url = getCurrentUrl();
+    const history = url ? window.history : undefined;
+    if (!url || !history || !history.replaceState) return;
+
+    try {
+        history.replaceState(history.state, "", withoutReturnParams(url).href);
+    } catch {
+        // Sandboxed documents may not allow changing the URL
+    }
+}
@@ -0,0 +1,198 @@
+/**
+ * Pay2Nature Mobile Money Payment Status Tracking
+ * Follows a mobile money payment until the customer approves or rejects it
+ * on their phone, using server-sent events when available and polling with
+ * backoff otherwise
+ */
+
+import { HttpClient } from "./http";
+
+export type PaymentStatus = "pending" | "approved" | "failed" | "expired";
+
+export type PaymentStatusTransport = "auto" | "polling" | "sse";
+
+export interface PaymentStatusOptions {
+    transport?: PaymentStatusTransport; // Default: "auto" (SSE, falling back to polling)
+    initialInterval?: number; // Default: 2000ms
+    maxInterval?: number; // Default: 15000ms
+    backoffFactor?: number; // Default: 1.5
+    timeout?: number; // Default: 180000ms, after which the payment is reported as expired
+}
+
+export interface PaymentStatusUpdate {
+    paymentToken: string;
+    status: PaymentStatus;
+    message?: string;
+}
+
+interface PaymentStatusTrackerParams {
+    statusUrl: string;
+    streamUrl: string;
+    paymentToken: string;
+    options?: PaymentStatusOptions;
+    http?: HttpClient;
+    onUpdate: (update: PaymentStatusUpdate) => void;
+}
+
+const STATUS_ALIASES: Record<string, PaymentStatus> = {
+    pending: "pending",
+    processing: "pending",
+    initiated: "pending",
+    approved: "approved",
+    success: "approved",
+    successful: "approved",
+    completed: "approved",
+    paid: "approved",
+    failed: "failed",
+    declined: "failed",
+    rejected: "failed",
+    cancelled: "failed",
+    canceled: "failed",
+    expired: "expired",
+    timeout: "expired",
+};
+
+export function normalizePaymentStatus(value: unknown): PaymentStatus | null {
+    if (typeof value !== "string") return null;
+    return STATUS_ALIASES[value.toLowerCase()] || null;
+}
+
+export class PaymentStatusTracker {
+    private params: PaymentStatusTrackerParams;
+    private interval: number;
+    private maxInterval: number;
+    private backoffFactor: number;
+    private deadline: number = 0;
+    private pollTimer: ReturnType<typeof setTimeout> | null = null;
+    private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+    private eventSource: EventSource | null = null;
+    private lastStatus: PaymentStatus | null = null;
+    private stopped: boolean = false;
+    private http: HttpClient;
+    private abortController: AbortController = new AbortController();
+
+    constructor(params: PaymentStatusTrackerParams) {
+        this.params = params;
+        this.http = params.http || new HttpClient();
+        this.interval = params.options?.initialInterval ?? 2000;
+        this.maxInterval = params.options?.maxInterval ?? 15000;
+        this.backoffFactor = params.options?.backoffFactor ?? 1.5;
+    }
+
+    public start(): void {
+        const timeout = this.params.options?.timeout ?? 180000;
+        this.deadline = Date.now() + timeout;
+        this.expiryTimer = setTimeout(() => {
+            this.report({ status: "expired" });
+        }, timeout);
+
+        this.report({ status: "pending" });
+
+        const transport = this.params.options?.transport || "auto";
+        if (transport !== "polling" && typeof EventSource !== "undefined") {
+            this.listen();
+        } else {
+            this.schedulePoll();
+        }
+    }
+
+    public stop(): void {
+        this.stopped = true;
+        this.abortController.abort();
+        if (this.pollTimer) {
+            clearTimeout(this.pollTimer);
+            this.pollTimer = null;
+        }
+        if (this.expiryTimer) {
+            clearTimeout(this.expiryTimer);
+            this.expiryTimer = null;
+        }
+        if (this.eventSource) {
+            this.eventSource.close();
+            this.eventSource = null;
+        }
+    }
+
+    private listen(): void {
+        const source = new EventSource(this.params.streamUrl);
+        this.eventSource = source;
+
+        source.onmessage = (event: MessageEvent) => {
+            try {
+                this.handlePayload(JSON.parse(event.data));
+            } catch {
+                // Ignore keep-alive and malformed messages
+            }
+        };
+
+        source.onerror = () => {
+            // The stream is unavailable or dropped: fall back to polling
+            source.close();
+            this.eventSource = null;
+            if (!this.stopped) {
+                this.schedulePoll();
+            }
+        };
+    }
+
+    private schedulePoll(): void {
+        if (this.stopped) return;
+
+        const delay = Math.min(
+            this.interval,
+            Math.max(this.deadline - Date.now(), 0)
+        );
+        this.pollTimer = setTimeout(() => this.poll(), delay);
+        this.interval = Math.min(
+            this.interval * this.backoffFactor,
+            this.maxInterval
+        );
+    }
+
+    private async poll(): Promise<void> {
+        if (this.stopped) return;
+
+        try {
+            // The tracker has its own backoff, so no retries per poll
+            this.handlePayload(
+                await this.http.get(this.params.statusUrl, {
+                    retries: 0,
+                    signal: this.abortController.signal,
+                })
+            );
+        } catch {
+            // Transient network errors: keep polling until the deadline
+        }
+
+        this.schedulePoll();
+    }
+
+    // Stream messages and poll responses come from the network; trust nothing
+    private handlePayload(payload: unknown): void {
+        if (!payload || typeof payload !== "object") return;
+
+        const { status: rawStatus, message } = payload as Record<string, unknown>;
+        if (typeof rawStatus !== "string") return;
+        const status = normalizePaymentStatus(rawStatus);
+        if (!status) return;
+
+        this.report({
+            status,
+            message: typeof message === "string" ? message : undefined,
+        });
+    }
+
+    private report(update: Omit<PaymentStatusUpdate, "paymentToken">): void {
+        if (this.stopped || update.status === this.lastStatus) return;
+
+        this.lastStatus = update.status;
+        if (update.status !== "pending") {
+            this.stop();
+        }
+
+        this.params.onUpdate({
+            paymentToken: this.params.paymentToken,
+            ...update,
+        });
+    }
+}
@@ -0,0 +1,26 @@
+/**
+ * Pay2Nature Payment Providers
+ */
+
+export {
+    PaymentProviderRegistry,
+    paymentProviders,
+    registerPaymentProvider,
+} from "./registry";
+export { stripeProvider } from "./stripe";
+export { mobileMoneyProvider } from "./mobileMoney";
+export {
+    MOBILE_MONEY_NETWORKS,
+    normalizeMobileNumber,
+    showMobileMoneyForm,
+} from "./mobileMoneyForm";
+export type { MobileMoneyNetwork } from "./mobileMoneyForm";
+export type {
+    PaymentProvider,
+    PaymentProviderContext,
+    PaymentStepContext,
+    PaymentRequest,
+    PaymentInitiation,
+    PaymentConfirmation,
+    PaymentStatusSubscription,
+} from "./types";
@@ -0,0 +1,65 @@
+/**
+ * Mobile money payment provider
+ * Collects the donor's mobile number and network, sends a payment prompt to
+ * their phone and tracks it until they approve or reject it
+ */
+
+import { ValidationError } from "../errors";
+import { PaymentStatusTracker } from "../paymentStatus";
+import type { MobileMoneyDetails } from "../types";
+import { normalizeMobileNumber, showMobileMoneyForm } from "./mobileMoneyForm";
+import type { PaymentProvider, PaymentProviderContext } from "./types";
+
+const MOBILE_MONEY_CURRENCIES = ["GHS"];
+
+function statusUrl(context: PaymentProviderContext, paymentToken: string): string {
+    return `${context.baseUrl}/api/widget/${context.widgetToken}/mobileMoney/payment-status/${encodeURIComponent(paymentToken)}`;
+}
+
+export const mobileMoneyProvider: PaymentProvider<MobileMoneyDetails> = {
+    id: "mobile-money",
+    label: "Mobile Money",
+
+    isEligible(config) {
+        return MOBILE_MONEY_CURRENCIES.includes(config.currency);
+    },
+
+    collectDetails(context) {
+        return showMobileMoneyForm(context);
+    },
+
+    async initiate(request, context) {
+        if (!request.details) {
+            throw new ValidationError("Pay2Nature: mobile money details are required");
+        }
+
+        const requestBody = {
+            amount: parseFloat(String(request.amount)),
+            mobileNumber: normalizeMobileNumber(request.details.mobileNumber),
+            mobileProvider: request.details.mobileProvider,
+            customerName: request.details.customerName,
+            ...(request.projectId ? { projectId: request.projectId } : {}),
+        };
+
+        const result = await context.http.post<{ paymentToken: string }>(
+            `${context.baseUrl}/api/widget/${context.widgetToken}/mobileMoney/initiate-payment`,
+            requestBody
+        );
+
+        return { paymentToken: result.paymentToken };
+    },
+
+    trackStatus(paymentToken, context, onUpdate) {
+        const url = statusUrl(context, paymentToken);
+        const tracker = new PaymentStatusTracker({
+            statusUrl: url,
+            streamUrl: `${url}/stream`,
+            paymentToken,
+            options: context.paymentStatus,
+            http: context.http,
+            onUpdate,
+        });
+        tracker.start();
+        return tracker;
+    },
+};
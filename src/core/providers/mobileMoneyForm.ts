@@ -0,0 +1,489 @@
+/**
+ * Pay2Nature Mobile Money Form
+ * The mobile money UI step, rendered inside the widget's own shadow root:
+ * network selection, per-network number validation, the anonymous option
+ * and keyboard/focus handling
+ */
+
+import { ProviderUnavailableError } from "../errors";
+import { formatMessage, WidgetMessages } from "../i18n";
+import type { MobileMoneyDetails } from "../types";
+import type { PaymentStepContext } from "./types";
+
+export interface MobileMoneyNetwork {
+    id: string;
+    label: string;
+    // Local number prefixes (after normalisation to 0XXXXXXXXX)
+    prefixes: string[];
+    example: string;
+}
+
+export const MOBILE_MONEY_NETWORKS: MobileMoneyNetwork[] = [
+    {
+        id: "mtn",
+        label: "MTN",
+        prefixes: ["024", "025", "053", "054", "055", "059"],
+        example: "024 123 4567",
+    },
+    {
+        id: "telecel",
+        label: "Telecel",
+        prefixes: ["020", "050"],
+        example: "020 123 4567",
+    },
+    {
+        id: "airteltigo",
+        label: "AirtelTigo",
+        prefixes: ["026", "027", "056", "057"],
+        example: "026 123 4567",
+    },
+];
+
+/**
+ * Normalises +233 / 233 / local numbers with spaces or dashes to 0XXXXXXXXX
+ */
+export function normalizeMobileNumber(value: string): string {
+    const digits = value.replace(/[\s\-().]/g, "").replace(/^\+/, "");
+    if (digits.startsWith("233") && digits.length === 12) {
+        return `0${digits.slice(3)}`;
+    }
+    return digits;
+}
+
+export function detectMobileMoneyNetwork(
+    value: string
+): MobileMoneyNetwork | undefined {
+    const number = normalizeMobileNumber(value);
+    return MOBILE_MONEY_NETWORKS.find((network) =>
+        network.prefixes.some((prefix) => number.startsWith(prefix))
+    );
+}
+
+export function isValidMobileNumber(
+    value: string,
+    network: MobileMoneyNetwork
+): boolean {
+    const number = normalizeMobileNumber(value);
+    return (
+        /^0\d{9}$/.test(number) &&
+        network.prefixes.some((prefix) => number.startsWith(prefix))
+    );
+}
+
+const FORM_STYLES = `
+  .p2n-mm {
+    display: flex;
+    flex-direction: column;
+    gap: 12px;
+  }
+  .p2n-mm-title {
+    font-size: 16px;
+    font-weight: 600;
+    color: var(--p2n-title);
+    margin: 0;
+  }
+  .p2n-mm-networks {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 8px;
+    border: none;
+    padding: 0;
+    margin: 0;
+  }
+  .p2n-mm-networks legend,
+  .p2n-mm-label {
+    font-size: 0.875rem;
+    color: var(--p2n-muted-text);
+    margin-bottom: 4px;
+    padding: 0;
+  }
+  .p2n-mm-network {
+    display: inline-flex;
+    align-items: center;
+    gap: 6px;
+    padding: 6px 10px;
+    font-size: 12px;
+    border: 1px solid var(--p2n-control-border);
+    border-radius: var(--p2n-control-radius);
+    background-color: var(--p2n-surface);
+    color: var(--p2n-text);
+    cursor: pointer;
+  }
+  .p2n-mm-network:has(input:checked) {
+    border-color: var(--p2n-primary);
+    color: var(--p2n-primary);
+  }
+  .p2n-mm-field {
+    display: flex;
+    flex-direction: column;
+  }
+  .p2n-mm-input {
+    height: 36px;
+    padding: 4px 8px;
+    font-size: 14px;
+    border: 1px solid var(--p2n-control-border);
+    border-radius: var(--p2n-control-radius);
+    background-color: var(--p2n-surface);
+    color: var(--p2n-text);
+  }
+  .p2n-mm-input[aria-invalid="true"] {
+    border-color: var(--p2n-error);
+  }
+  .p2n-mm-check {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    font-size: 0.875rem;
+    color: var(--p2n-text);
+  }
+  .p2n-mm-error {
+    font-size: 12px;
+    color: var(--p2n-error-text);
+    margin-top: 4px;
+  }
+  .p2n-mm-actions {
+    display: flex;
+    gap: 8px;
+  }
+  .p2n-mm-actions button {
+    flex: 1;
+    padding: 10px;
+    font-size: 14px;
+    border-radius: var(--p2n-control-radius);
+    cursor: pointer;
+  }
+  .p2n-mm-cancel {
+    background-color: var(--p2n-surface);
+    color: var(--p2n-text);
+    border: 1px solid var(--p2n-control-border);
+  }
+  .p2n-mm-submit {
+    background-color: var(--p2n-primary);
+    color: var(--p2n-on-primary);
+    border: none;
+  }
+  .p2n-mm-submit:hover {
+    background-color: var(--p2n-primary-hover);
+  }
+  .p2n-mm :focus-visible {
+    outline: 2px solid var(--p2n-primary);
+    outline-offset: 2px;
+  }
+`;
+
+function createElement<K extends keyof HTMLElementTagNameMap>(
+    tag: K,
+    attributes: Record<string, string> = {},
+    text?: string
+): HTMLElementTagNameMap[K] {
+    const element = document.createElement(tag);
+    Object.keys(attributes).forEach((name) =>
+        element.setAttribute(name, attributes[name])
+    );
+    if (text !== undefined) {
+        element.textContent = text;
+    }
+    return element;
+}
+
+/**
+ * Renders the form into `context.container` and resolves with the entered
+ * details, or null when the donor cancels or `context.signal` aborts
+ */
+export function showMobileMoneyForm(
+    context: PaymentStepContext<MobileMoneyDetails>
+): Promise<MobileMoneyDetails | null> {
+    const container = context.container;
+    if (!container) {
+        return Promise.reject(
+            new ProviderUnavailableError(
+                "Pay2Nature: the mobile money form needs a container; pass details instead"
+            )
+        );
+    }
+
+    const messages: WidgetMessages = context.messages;
+    const previous = context.previousDetails;
+    const t = (key: keyof WidgetMessages, params?: Record<string, string>) =>
+        formatMessage(messages[key], params);
+
+    container.textContent = "";
+    container.appendChild(createElement("style", {}, FORM_STYLES));
+
+    const form = createElement("form", {
+        class: "p2n-mm",
+        novalidate: "",
+        "aria-labelledby": "p2n-mm-title",
+    });
+    form.appendChild(
+        createElement(
+            "h3",
+            { class: "p2n-mm-title", id: "p2n-mm-title" },
+            t("mobileMoneyTitle")
+        )
+    );
+
+    // Network selection: a native radio group gives arrow-key navigation
+    const networks = createElement("fieldset", {
+        class: "p2n-mm-networks",
+        "aria-describedby": "p2n-mm-network-error",
+    });
+    networks.appendChild(createElement("legend", {}, t("mobileMoneyNetwork")));
+    MOBILE_MONEY_NETWORKS.forEach((network) => {
+        const label = createElement("label", { class: "p2n-mm-network", part: "mobile-money-network" });
+        const radio = createElement("input", {
+            type: "radio",
+            name: "p2n-mm-network",
+            value: network.id,
+        });
+        radio.checked = previous?.mobileProvider === network.id;
+        label.appendChild(radio);
+        label.appendChild(document.createTextNode(network.label));
+        networks.appendChild(label);
+    });
+    const networkError = createElement("div", {
+        class: "p2n-mm-error",
+        id: "p2n-mm-network-error",
+        role: "alert",
+    });
+    networkError.hidden = true;
+    form.appendChild(networks);
+    form.appendChild(networkError);
+
+    // Mobile number
+    const numberField = createElement("div", { class: "p2n-mm-field" });
+    numberField.appendChild(
+        createElement(
+            "label",
+            { class: "p2n-mm-label", for: "p2n-mm-number" },
+            t("mobileMoneyNumber")
+        )
+    );
+    const numberInput = createElement("input", {
+        class: "p2n-mm-input",
+        id: "p2n-mm-number",
+        type: "tel",
+        inputmode: "tel",
+        autocomplete: "tel",
+        placeholder: MOBILE_MONEY_NETWORKS[0].example,
+        "aria-describedby": "p2n-mm-number-error",
+        part: "mobile-money-input",
+    });
+    numberInput.value = previous?.mobileNumber || "";
+    const numberError = createElement("div", {
+        class: "p2n-mm-error",
+        id: "p2n-mm-number-error",
+        role: "alert",
+    });
+    numberError.hidden = true;
+    numberField.appendChild(numberInput);
+    numberField.appendChild(numberError);
+    form.appendChild(numberField);
+
+    // Anonymous option
+    const anonymousLabel = createElement("label", { class: "p2n-mm-check" });
+    const anonymousInput = createElement("input", { type: "checkbox" });
+    anonymousInput.checked = previous?.isAnonymous || false;
+    anonymousLabel.appendChild(anonymousInput);
+    anonymousLabel.appendChild(
+        document.createTextNode(t("mobileMoneyAnonymous"))
+    );
+    form.appendChild(anonymousLabel);
+
+    // Name
+    const nameField = createElement("div", { class: "p2n-mm-field" });
+    nameField.appendChild(
+        createElement(
+            "label",
+            { class: "p2n-mm-label", for: "p2n-mm-name" },
+            t("mobileMoneyName")
+        )
+    );
+    const nameInput = createElement("input", {
+        class: "p2n-mm-input",
+        id: "p2n-mm-name",
+        type: "text",
+        autocomplete: "name",
+        "aria-describedby": "p2n-mm-name-error",
+        part: "mobile-money-input",
+    });
+    nameInput.value = previous?.customerName || "";
+    const nameError = createElement("div", {
+        class: "p2n-mm-error",
+        id: "p2n-mm-name-error",
+        role: "alert",
+    });
+    nameError.hidden = true;
+    nameField.appendChild(nameInput);
+    nameField.appendChild(nameError);
+    nameField.hidden = anonymousInput.checked;
+    form.appendChild(nameField);
+
+    // Actions
+    const actions = createElement("div", { class: "p2n-mm-actions" });
+    const cancelButton = createElement(
+        "button",
+        { type: "button", class: "p2n-mm-cancel" },
+        t("mobileMoneyCancel")
+    );
+    const submitButton = createElement(
+        "button",
+        { type: "submit", class: "p2n-mm-submit", part: "contribute-button" },
+        t("mobileMoneySubmit", { amount: context.formatAmount(context.amount) })
+    );
+    actions.appendChild(cancelButton);
+    actions.appendChild(submitButton);
+    form.appendChild(actions);
+
+    container.appendChild(form);
+
+    const radios = Array.from(
+        form.querySelectorAll<HTMLInputElement>('input[name="p2n-mm-network"]')
+    );
+    const selectedNetwork = () =>
+        MOBILE_MONEY_NETWORKS.find(
+            (network) => radios.find((radio) => radio.checked)?.value === network.id
+        );
+
+    const setError = (
+        input: HTMLElement,
+        error: HTMLElement,
+        message: string | null
+    ) => {
+        error.textContent = message || "";
+        error.hidden = !message;
+        if (message) {
+            input.setAttribute("aria-invalid", "true");
+        } else {
+            input.removeAttribute("aria-invalid");
+        }
+    };
+
+    return new Promise((resolve) => {
+        const signal = context.signal;
+        const onAbort = () => close(null);
+        const close = (result: MobileMoneyDetails | null) => {
+            signal?.removeEventListener("abort", onAbort);
+            container.textContent = "";
+            resolve(result);
+        };
+
+        if (signal?.aborted) {
+            close(null);
+            return;
+        }
+        signal?.addEventListener("abort", onAbort);
+
+        numberInput.addEventListener("input", () => {
+            setError(numberInput, numberError, null);
+            // Pick the network from the number prefix if none was chosen
+            const detected = detectMobileMoneyNetwork(numberInput.value);
+            if (detected && !selectedNetwork()) {
+                const radio = radios.find((item) => item.value === detected.id);
+                if (radio) {
+                    radio.checked = true;
+                    setError(networks, networkError, null);
+                }
+            }
+        });
+
+        radios.forEach((radio) =>
+            radio.addEventListener("change", () =>
+                setError(networks, networkError, null)
+            )
+        );
+
+        nameInput.addEventListener("input", () =>
+            setError(nameInput, nameError, null)
+        );
+
+        anonymousInput.addEventListener("change", () => {
+            nameField.hidden = anonymousInput.checked;
+            setError(nameInput, nameError, null);
+        });
+
+        cancelButton.addEventListener("click", () => close(null));
+
+        form.addEventListener("keydown", (event: KeyboardEvent) => {
+            if (event.key === "Escape") {
+                event.preventDefault();
+                close(null);
+                return;
+            }
+
+            // Keep Tab focus inside the step while it is open
+            if (event.key === "Tab") {
+                const focusable = Array.from(
+                    form.querySelectorAll<HTMLElement>("input, button")
+                ).filter(
+                    (element) =>
+                        !element.closest("[hidden]") &&
+                        !(element instanceof HTMLInputElement &&
+                            element.type === "radio" &&
+                            !element.checked &&
+                            radios.some((radio) => radio.checked))
+                );
+                const root = form.getRootNode() as Document | ShadowRoot;
+                const active = root.activeElement;
+                const first = focusable[0];
+                const last = focusable[focusable.length - 1];
+                if (event.shiftKey && active === first) {
+                    event.preventDefault();
+                    last.focus();
+                } else if (!event.shiftKey && active === last) {
+                    event.preventDefault();
+                    first.focus();
+                }
+            }
+        });
+
+        form.addEventListener("submit", (event) => {
+            event.preventDefault();
+
+            const network = selectedNetwork();
+            const isAnonymous = anonymousInput.checked;
+            const name = nameInput.value.trim();
+            let firstInvalid: HTMLElement | null = null;
+
+            if (!network) {
+                setError(networks, networkError, t("mobileMoneyNetworkRequired"));
+                firstInvalid = radios[0];
+            }
+
+            if (!numberInput.value.trim()) {
+                setError(numberInput, numberError, t("mobileMoneyNumberRequired"));
+                firstInvalid = firstInvalid || numberInput;
+            } else if (network && !isValidMobileNumber(numberInput.value, network)) {
+                setError(
+                    numberInput,
+                    numberError,
+                    t("mobileMoneyNumberInvalid", {
+                        network: network.label,
+                        example: network.example,
+                    })
+                );
+                firstInvalid = firstInvalid || numberInput;
+            }
+
+            if (!isAnonymous && !name) {
+                setError(nameInput, nameError, t("mobileMoneyNameRequired"));
+                firstInvalid = firstInvalid || nameInput;
+            }
+
+            if (firstInvalid || !network) {
+                firstInvalid?.focus();
+                return;
+            }
+
+            close({
+                mobileNumber: normalizeMobileNumber(numberInput.value),
+                mobileProvider: network.id,
+                customerName: isAnonymous ? null : name,
+                isAnonymous,
+            });
+        });
+
+        // Move focus into the step
+        (radios.find((radio) => radio.checked) || radios[0]).focus();
+    });
+}
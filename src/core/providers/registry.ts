@@ -0,0 +1,80 @@
+/**
+ * Pay2Nature Payment Provider Registry
+ * Keeps the providers available to widgets and picks the ones that apply to
+ * a configuration
+ */
+
+import type { PaymentMethod, WidgetConfig } from "../types";
+import { mobileMoneyProvider } from "./mobileMoney";
+import { stripeProvider } from "./stripe";
+import type { PaymentProvider } from "./types";
+
+const BUILT_IN_PROVIDERS: PaymentProvider[] = [stripeProvider, mobileMoneyProvider];
+
+export class PaymentProviderRegistry {
+    private providers: Map<string, PaymentProvider> = new Map();
+
+    constructor(providers: PaymentProvider[] = []) {
+        providers.forEach((provider) => this.register(provider));
+    }
+
+    /**
+     * Adds a provider, replacing any provider registered with the same id
+     */
+    public register(provider: PaymentProvider): void {
+        this.providers.set(provider.id, provider);
+    }
+
+    public unregister(id: string): void {
+        this.providers.delete(id);
+    }
+
+    public get(id: string): PaymentProvider | undefined {
+        return this.providers.get(id);
+    }
+
+    public list(): PaymentProvider[] {
+        return Array.from(this.providers.values());
+    }
+
+    /**
+     * Returns the eligible providers for a configuration, in display order.
+     * An explicit list (the `paymentMethods` option, else the server
+     * config's `paymentMethods`) selects and orders the providers. Without
+     * one, GHS widgets use mobile money and all others use Stripe, plus any
+     * eligible custom providers.
+     */
+    public resolve(
+        config: WidgetConfig,
+        allowed?: PaymentMethod[]
+    ): PaymentProvider[] {
+        const ids =
+            allowed ||
+            config.paymentMethods || [
+                config.currency === "GHS" ? "mobile-money" : "stripe",
+                ...this.list()
+                    .map((provider) => provider.id)
+                    .filter((id) => !isBuiltInProvider(id)),
+            ];
+
+        return ids
+            .map((id) => this.providers.get(id))
+            .filter(
+                (provider): provider is PaymentProvider =>
+                    !!provider && provider.isEligible(config)
+            );
+    }
+}
+
+function isBuiltInProvider(id: string): boolean {
+    return BUILT_IN_PROVIDERS.some((provider) => provider.id === id);
+}
+
+/**
+ * Registry shared by every widget on the page
+ */
+export const paymentProviders = new PaymentProviderRegistry(BUILT_IN_PROVIDERS);
+
+export function registerPaymentProvider(provider: PaymentProvider): void {
+    paymentProviders.register(provider);
+}
@@ -0,0 +1,81 @@
+/**
+ * Stripe payment provider
+ * Creates a hosted Stripe payment link for the contribution, and confirms
+ * the payment once the donor returns from it
+ */
+
+import { PaymentRejectedError } from "../errors";
+import { isHttpUrl } from "../http";
+import { normalizePaymentStatus } from "../paymentStatus";
+import type { PaymentProvider } from "./types";
+
+export const stripeProvider: PaymentProvider<null> = {
+    id: "stripe",
+    label: "Card",
+    opensPaymentPage: true,
+    supportsRecurring: true,
+
+    isEligible(): boolean {
+        return true;
+    },
+
+    async initiate(request, context) {
+        const result = await context.http.post<{
+            paymentUrl: string;
+            projectName?: string;
+        }>(
+            `${context.baseUrl}/api/widget/${context.widgetToken}/stripe/create-payment-link`,
+            {
+                amount: request.amount,
+                // "monthly" creates a subscription instead of a one-off payment
+                frequency: request.frequency,
+                ...(request.projectId ? { projectId: request.projectId } : {}),
+                ...(request.returnUrls
+                    ? {
+                          successUrl: request.returnUrls.success,
+                          cancelUrl: request.returnUrls.cancel,
+                      }
+                    : {}),
+            }
+        );
+
+        // Without a payment page nothing can be paid; never report a hand-off
+        const paymentUrl = result?.paymentUrl;
+        if (typeof paymentUrl !== "string" || !isHttpUrl(paymentUrl)) {
+            throw new PaymentRejectedError(
+                "Pay2Nature: the server did not return a payment page",
+                { data: result }
+            );
+        }
+
+        return {
+            paymentUrl,
+            projectName: result.projectName,
+        };
+    },
+
+    async confirmReturn(sessionId, context) {
+        const result = await context.http.get<{
+            status: string;
+            amount?: number;
+            currency?: string;
+            projectId?: string;
+            projectName?: string;
+            receiptUrl?: string;
+            message?: string;
+        }>(
+            `${context.baseUrl}/api/widget/${context.widgetToken}/stripe/confirm-payment/${encodeURIComponent(sessionId)}`
+        );
+
+        return {
+            // Unknown statuses are treated as not settled yet
+            status: normalizePaymentStatus(result.status) || "pending",
+            amount: result.amount,
+            currency: result.currency,
+            projectId: result.projectId,
+            projectName: result.projectName,
+            receiptUrl: result.receiptUrl,
+            message: result.message,
+        };
+    },
+};
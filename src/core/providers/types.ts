@@ -0,0 +1,127 @@
+/**
+ * Pay2Nature Payment Provider Types
+ * A provider is one payment rail (Stripe, mobile money, ...) the widget can
+ * offer. Providers decide whether they apply to a widget configuration,
+ * optionally collect details from the donor, and start the payment.
+ */
+
+import type { HttpClient } from "../http";
+import type { WidgetMessages } from "../i18n";
+import type { PaymentReturnUrls } from "../paymentReturn";
+import type {
+    PaymentStatus,
+    PaymentStatusOptions,
+    PaymentStatusUpdate,
+} from "../paymentStatus";
+import type { ContributionFrequency, WidgetConfig } from "../types";
+
+export interface PaymentProviderContext {
+    baseUrl: string;
+    widgetToken: string;
+    config: WidgetConfig;
+    paymentStatus?: PaymentStatusOptions;
+    // Shared HTTP client; its requests are cancelled when the widget is destroyed
+    http: HttpClient;
+}
+
+export interface PaymentStepContext<TDetails = unknown>
+    extends PaymentProviderContext {
+    amount: number;
+    currency: string;
+    currencySymbol: string;
+    // Element inside the widget the step renders into, when a renderer provides one
+    container: HTMLElement | null;
+    messages: WidgetMessages;
+    formatAmount: (amount: number) => string;
+    // Details entered the last time this step was completed
+    previousDetails: TDetails | null;
+    // Aborted when the step is abandoned, e.g. the widget is destroyed;
+    // the step should then close and resolve with null
+    signal?: AbortSignal;
+}
+
+export interface PaymentRequest<TDetails = unknown> {
+    amount: number;
+    currency: string;
+    details: TDetails | null;
+    // "monthly" when the donor chose a recurring contribution
+    frequency: ContributionFrequency;
+    // Project the donor chose, when the widget offers several
+    projectId?: string | null;
+    // Pages a hosted payment page sends the donor back to, when known
+    returnUrls?: PaymentReturnUrls | null;
+}
+
+export interface PaymentInitiation {
+    // A hosted payment page to open for the donor
+    paymentUrl?: string;
+    // A token identifying a payment the donor completes elsewhere (e.g. on their phone)
+    paymentToken?: string;
+    projectName?: string;
+}
+
+export interface PaymentConfirmation {
+    status: PaymentStatus;
+    amount?: number;
+    currency?: string;
+    projectId?: string;
+    projectName?: string;
+    receiptUrl?: string;
+    message?: string;
+}
+
+export interface PaymentStatusSubscription {
+    stop(): void;
+}
+
+export interface PaymentProvider<TDetails = unknown> {
+    id: string;
+    label: string;
+    /**
+     * Set by providers whose `initiate` resolves with a `paymentUrl`, so a
+     * popup can be opened while the donor's click still allows it
+     */
+    opensPaymentPage?: boolean;
+    /**
+     * Set by providers that can set up monthly contributions; "monthly" is
+     * only offered while one of them is selected
+     */
+    supportsRecurring?: boolean;
+    /**
+     * Whether the provider can take payments for this configuration.
+     * Only consulted for providers the server config or the
+     * `paymentMethods` option allow.
+     */
+    isEligible(config: WidgetConfig): boolean;
+    /**
+     * Called once the configuration is loaded and the provider is
+     * available, e.g. to preload assets for its UI step
+     */
+    prepare?(context: PaymentProviderContext): void;
+    /**
+     * UI step shown before the payment starts. Resolves with the details
+     * entered by the donor, or null if the step was cancelled.
+     */
+    collectDetails?(context: PaymentStepContext<TDetails>): Promise<TDetails | null>;
+    initiate(
+        request: PaymentRequest<TDetails>,
+        context: PaymentProviderContext
+    ): Promise<PaymentInitiation>;
+    /**
+     * Follows a payment identified by `paymentToken` until it completes.
+     * Providers without this method are considered complete once initiated.
+     */
+    trackStatus?(
+        paymentToken: string,
+        context: PaymentProviderContext,
+        onUpdate: (update: PaymentStatusUpdate) => void
+    ): PaymentStatusSubscription;
+    /**
+     * Asks the server whether the payment of a checkout session succeeded,
+     * once the donor is back from the hosted payment page
+     */
+    confirmReturn?(
+        sessionId: string,
+        context: PaymentProviderContext
+    ): Promise<PaymentConfirmation>;
+}
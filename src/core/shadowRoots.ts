@@ -0,0 +1,32 @@
+/**
+ * Pay2Nature Shadow Roots
+ * Closed shadow roots can't be read back from their host, so the SDK keeps
+ * the ones it attaches. The registry lives on a global symbol so every copy
+ * of the SDK on the page (the main bundle, the custom element bundle and
+ * the testing utilities) shares it.
+ */
+
+const REGISTRY_KEY = Symbol.for("pay2nature.shadowRoots");
+
+type ShadowRootRegistry = WeakMap<Element, ShadowRoot>;
+
+function getRegistry(): ShadowRootRegistry {
+    const globals = globalThis as unknown as Record<symbol, ShadowRootRegistry | undefined>;
+    let registry = globals[REGISTRY_KEY];
+    if (!registry) {
+        registry = new WeakMap();
+        globals[REGISTRY_KEY] = registry;
+    }
+    return registry;
+}
+
+/**
+ * The shadow root the SDK attached to a widget container, if any
+ */
+export function getAttachedShadowRoot(container: Element): ShadowRoot | null {
+    return getRegistry().get(container) || null;
+}
+
+export function setAttachedShadowRoot(container: Element, shadowRoot: ShadowRoot): void {
+    getRegistry().set(container, shadowRoot);
+}
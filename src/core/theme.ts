@@ -0,0 +1,169 @@
+/**
+ * Pay2Nature Widget Theming
+ * Resolves theme presets and token overrides into CSS custom properties
+ */
+
+export type ThemePreset = "light" | "dark" | "high-contrast";
+
+export interface ThemeTokens {
+    fontFamily: string;
+    radius: string;
+    controlRadius: string;
+    background: string;
+    border: string;
+    text: string;
+    mutedText: string;
+    title: string;
+    primary: string;
+    primaryHover: string;
+    onPrimary: string;
+    surface: string;
+    controlBorder: string;
+    disabled: string;
+    success: string;
+    error: string;
+    errorText: string;
+    errorDetail: string;
+    errorBackground: string;
+    errorBorder: string;
+}
+
+export interface Pay2NatureTheme {
+    preset?: ThemePreset;
+    tokens?: Partial<ThemeTokens>;
+}
+
+export type ThemeOption = ThemePreset | Pay2NatureTheme;
+
+const FONT_FAMILY =
+    "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif";
+
+const PRESETS: Record<ThemePreset, ThemeTokens> = {
+    light: {
+        fontFamily: FONT_FAMILY,
+        radius: "8px",
+        controlRadius: "6px",
+        background: "#f0fdf4",
+        border: "#bbf7d0",
+        text: "#374151",
+        mutedText: "#6b7280",
+        title: "#166534",
+        primary: "#16a34a",
+        primaryHover: "#15803d",
+        onPrimary: "#ffffff",
+        surface: "#ffffff",
+        controlBorder: "#d1d5db",
+        disabled: "#9ca3af",
+        success: "#10b981",
+        error: "#ef4444",
+        errorText: "#dc2626",
+        errorDetail: "#7f1d1d",
+        errorBackground: "#fef2f2",
+        errorBorder: "#fca5a5",
+    },
+    dark: {
+        fontFamily: FONT_FAMILY,
+        radius: "8px",
+        controlRadius: "6px",
+        background: "#0f172a",
+        border: "#1e3a2f",
+        text: "#e5e7eb",
+        mutedText: "#9ca3af",
+        title: "#86efac",
+        primary: "#22c55e",
+        primaryHover: "#16a34a",
+        onPrimary: "#052e16",
+        surface: "#1e293b",
+        controlBorder: "#334155",
+        disabled: "#475569",
+        success: "#10b981",
+        error: "#f87171",
+        errorText: "#fca5a5",
+        errorDetail: "#fecaca",
+        errorBackground: "#2a1215",
+        errorBorder: "#7f1d1d",
+    },
+    "high-contrast": {
+        fontFamily: FONT_FAMILY,
+        radius: "4px",
+        controlRadius: "4px",
+        background: "#000000",
+        border: "#ffffff",
+        text: "#ffffff",
+        mutedText: "#ffffff",
+        title: "#ffffff",
+        primary: "#ffff00",
+        primaryHover: "#ffffff",
+        onPrimary: "#000000",
+        surface: "#000000",
+        controlBorder: "#ffffff",
+        disabled: "#808080",
+        success: "#00ff00",
+        error: "#ff4040",
+        errorText: "#ff8080",
+        errorDetail: "#ffffff",
+        errorBackground: "#000000",
+        errorBorder: "#ff4040",
+    },
+};
+
+/**
+ * CSS custom property names for each token. Hosts can override these on the
+ * widget container (e.g. `#pay2nature-widget { --p2n-primary: #2563eb; }`)
+ */
+export const THEME_CSS_VARIABLES: Record<keyof ThemeTokens, string> = {
+    fontFamily: "--p2n-font-family",
+    radius: "--p2n-radius",
+    controlRadius: "--p2n-control-radius",
+    background: "--p2n-background",
+    border: "--p2n-border",
+    text: "--p2n-text",
+    mutedText: "--p2n-muted-text",
+    title: "--p2n-title",
+    primary: "--p2n-primary",
+    primaryHover: "--p2n-primary-hover",
+    onPrimary: "--p2n-on-primary",
+    surface: "--p2n-surface",
+    controlBorder: "--p2n-control-border",
+    disabled: "--p2n-disabled",
+    success: "--p2n-success",
+    error: "--p2n-error",
+    errorText: "--p2n-error-text",
+    errorDetail: "--p2n-error-detail",
+    errorBackground: "--p2n-error-background",
+    errorBorder: "--p2n-error-border",
+};
+
+export function resolveTheme(theme: ThemeOption | undefined): ThemeTokens {
+    if (!theme) {
+        return { ...PRESETS.light };
+    }
+
+    if (typeof theme === "string") {
+        return { ...(PRESETS[theme] || PRESETS.light) };
+    }
+
+    const base = PRESETS[theme.preset || "light"] || PRESETS.light;
+    const tokens = { ...base };
+    (Object.keys(theme.tokens || {}) as (keyof ThemeTokens)[]).forEach((key) => {
+        const value = theme.tokens?.[key];
+        // Unsafe overrides keep the preset's value
+        if (key in THEME_CSS_VARIABLES && isSafeTokenValue(value)) {
+            tokens[key] = value;
+        }
+    });
+    return tokens;
+}
+
+// Token values are written into a <style> element, so anything that could
+// end the declaration or the rule, or escape out of them, is refused
+function isSafeTokenValue(value: unknown): value is string {
+    return typeof value === "string" && !/[;{}<\\]/.test(value);
+}
+
+export function themeToCss(tokens: ThemeTokens): string {
+    return (Object.keys(THEME_CSS_VARIABLES) as (keyof ThemeTokens)[])
+        .filter((key) => isSafeTokenValue(tokens[key]))
+        .map((key) => `${THEME_CSS_VARIABLES[key]}: ${tokens[key]};`)
+        .join("\n          ");
+}
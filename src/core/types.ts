@@ -0,0 +1,90 @@
+/**
+ * Pay2Nature shared types
+ * Used by both the headless controller and the widget renderer
+ */
+
+import type { AmountOptions } from "./amounts";
+import type { PaymentStatus } from "./paymentStatus";
+
+export interface ContributionData {
+    amount: number;
+    currency: string;
+    paymentMethod?: PaymentMethod;
+    frequency?: ContributionFrequency;
+    paymentUrl?: string;
+    projectId?: string;
+    projectName?: string;
+    paymentToken?: string;
+    // How the hosted payment page was shown to the donor, for payments
+    // completed on a payment page
+    presentation?: PaymentPresentation;
+}
+
+// How a hosted payment page is shown: in the current tab, in a new window
+// or tab, or in a dialog over the page
+export type PaymentPresentation = "redirect" | "popup" | "modal";
+
+// The contribution chosen in the widget, for hosts that add it to their own
+// checkout (opt-in mode)
+export interface ContributionSelection {
+    enabled: boolean;
+    amount: number;
+    currency: string;
+    isCustom: boolean;
+    isValid: boolean;
+    orderTotal: number | null;
+    projectId: string | null;
+}
+
+// A contribution the server confirmed once the donor returned from the
+// hosted payment page
+export interface ConfirmedContribution extends ContributionData {
+    sessionId: string;
+    // "approved", or "pending" while the payment is still settling
+    status: PaymentStatus;
+    receiptUrl?: string;
+}
+
+export interface PaymentStatusData extends ContributionData {
+    paymentToken: string;
+    status: PaymentStatus;
+    message?: string;
+}
+
+export interface WidgetConfig {
+    currency: string;
+    currencySymbol: string;
+    minAmount: number;
+    maxAmount: number;
+    defaultAmount: number;
+    activeProjectName: string | null;
+    hasActiveProjects: boolean;
+    // Projects donors can choose between; without it, contributions go to
+    // the active project
+    projects?: WidgetProject[];
+    // Frequencies donors can choose between, e.g. ["one-time", "monthly"]
+    // (default: one-time only)
+    frequencies?: ContributionFrequency[];
+    paymentMethods?: PaymentMethod[];
+    // Preset amount strategy; the host's `amounts` option takes precedence
+    amounts?: AmountOptions;
+}
+
+export type ContributionFrequency = "one-time" | "monthly";
+
+export interface WidgetProject {
+    id: string;
+    name: string;
+    description?: string;
+    imageUrl?: string;
+}
+
+// Built-in payment method ids; custom providers add their own
+export type PaymentMethod = "stripe" | "mobile-money" | (string & {});
+
+export interface MobileMoneyDetails {
+    mobileNumber: string;
+    mobileProvider: string;
+    customerName: string | null;
+    isAnonymous?: boolean;
+}
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { definePay2NatureElement, Pay2NatureElement } from './Pay2NatureElement';
+import { clearConfigCache } from '../core/config';
+import { Pay2NatureWidget } from '../core/Pay2NatureWidget';
+import {
+  clickWidget,
+  createMockServer,
+  getWidgetRoot,
+  MockServer,
+  queryWidget,
+  waitFor,
+  waitForWidget,
+} from '../testing';
+
+let server: MockServer;
+let restoreFetch: () => void;
+let element: Pay2NatureElement;
+
+function createElement(attributes: Record<string, string> = {}): Pay2NatureElement {
+  element = document.createElement('pay2nature-widget');
+  element.setAttribute('widget-token', 'test-token');
+  element.setAttribute('base-url', 'https://api.pay2nature.test');
+  Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, value));
+  return element;
+}
+
+beforeEach(() => {
+  definePay2NatureElement();
+  server = createMockServer();
+  restoreFetch = server.install();
+  clearConfigCache();
+});
+
+afterEach(() => {
+  element?.remove();
+  restoreFetch();
+});
+
+describe('<pay2nature-widget>', () => {
+  it('renders once connected with a token and base URL', async () => {
+    createElement();
+    expect(element.getWidget()).toBeNull();
+
+    document.body.appendChild(element);
+
+    expect(element.getWidget()).not.toBeNull();
+    await waitForWidget(element, '.p2n-contribute');
+    expect(server.getRequests('config')[0].widgetToken).toBe('test-token');
+  });
+
+  it('re-dispatches controller events as DOM events', async () => {
+    const onReady = vi.fn();
+    const onAmountChange = vi.fn();
+    createElement();
+    element.addEventListener('pay2nature-ready', onReady);
+    element.addEventListener('pay2nature-amount-change', onAmountChange);
+    document.body.appendChild(element);
+
+    await waitFor(() => onReady.mock.calls.length > 0);
+    clickWidget(element, ".p2n-amount[data-amount='5.5']");
+
+    expect(onAmountChange).toHaveBeenCalledTimes(1);
+    expect(onAmountChange.mock.calls[0][0].detail).toMatchObject({ amount: 5.5 });
+  });
+
+  it('applies live attributes without re-creating the widget', async () => {
+    createElement({ mode: 'opt-in' });
+    document.body.appendChild(element);
+    await waitForWidget(element, '.p2n-toggle-input');
+    const widget = element.getWidget();
+
+    element.enabled = true;
+    element.locale = 'fr';
+
+    expect(element.getWidget()).toBe(widget);
+    expect(widget?.getSelection().enabled).toBe(true);
+    expect(element.enabled).toBe(true);
+  });
+
+  it('re-creates the widget when the token changes', async () => {
+    createElement();
+    document.body.appendChild(element);
+    await waitForWidget(element, '.p2n-contribute');
+    const widget = element.getWidget();
+
+    element.widgetToken = 'other-token';
+
+    expect(element.getWidget()).not.toBe(widget);
+    await waitForWidget(element, '.p2n-contribute');
+    expect(server.getRequests('config').map((request) => request.widgetToken)).toEqual([
+      'test-token',
+      'other-token',
+    ]);
+  });
+
+  it('re-creates the widget once for properties set together', async () => {
+    createElement();
+    document.body.appendChild(element);
+    await waitForWidget(element, '.p2n-contribute');
+    const widget = element.getWidget();
+    const destroy = vi.spyOn(Pay2NatureWidget.prototype, 'destroy');
+
+    element.providers = [];
+    element.offline = { latency: 0 };
+    expect(element.getWidget()).toBe(widget);
+
+    await Promise.resolve();
+    expect(element.getWidget()).not.toBe(widget);
+    expect(destroy).toHaveBeenCalledTimes(1);
+    await waitForWidget(element, '.p2n-contribute');
+  });
+
+  it('forwards analytics and logger to the live widget', async () => {
+    const track = vi.fn();
+    const log = vi.fn();
+    createElement();
+    document.body.appendChild(element);
+    await waitForWidget(element, '.p2n-contribute');
+    const widget = element.getWidget();
+
+    element.analytics = { track };
+    element.logger = { log };
+    clickWidget(element, ".p2n-amount[data-amount='5.5']");
+    widget?.getController().getLogger().error('Logged');
+
+    expect(element.getWidget()).toBe(widget);
+    expect(track).toHaveBeenCalledWith('amount_selected', expect.objectContaining({ amount: 5.5 }));
+    expect(log).toHaveBeenCalledWith(expect.objectContaining({ message: 'Logged' }));
+  });
+
+  it('destroys the widget when removed from the page', async () => {
+    createElement();
+    document.body.appendChild(element);
+    await waitForWidget(element, '.p2n-contribute');
+
+    element.remove();
+
+    expect(element.getWidget()).toBeNull();
+    expect(getWidgetRoot(element)?.childNodes).toHaveLength(0);
+    expect(queryWidget(element, '.p2n-contribute')).toBeNull();
+  });
+});
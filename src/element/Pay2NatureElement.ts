@@ -0,0 +1,456 @@
+/**
+ * Custom Element Wrapper for Pay2Nature Widget
+ * <pay2nature-widget widget-token="..." base-url="..."></pay2nature-widget>
+ */
+
+import { Pay2NatureWidget } from '../core/Pay2NatureWidget';
+import type { ThemeOption } from '../core/theme';
+import type { MessageCatalogs, TextDirection } from '../core/i18n';
+import type { Pay2NatureEventMap, Pay2NatureEventName } from '../core/events';
+import type { PaymentProvider } from '../core/providers';
+import type { AnalyticsAdapter } from '../core/analytics';
+import type { LogLevel, Pay2NatureLogger } from '../core/logger';
+import type { WidgetEnvironment } from '../core/environment';
+import type { OfflineOptions } from '../core/offline';
+import type { ContributionFrequency, PaymentPresentation, WidgetConfig } from '../core/types';
+import type { ProjectPicker } from '../core/Pay2NatureWidget';
+import type { AmountOptions } from '../core/amounts';
+import type { WidgetMode } from '../core/Pay2NatureController';
+
+export const PAY2NATURE_ELEMENT_TAG = 'pay2nature-widget';
+
+type ForwardedEventName = Exclude<Pay2NatureEventName, 'destroy'>;
+
+export type Pay2NatureElementEventMap = {
+  [K in ForwardedEventName as `pay2nature-${KebabCase<K>}`]: CustomEvent<Pay2NatureEventMap[K]>;
+};
+
+type KebabCase<S extends string> = S extends `${infer Head}${infer Tail}`
+  ? `${Head extends Lowercase<Head> ? Head : `-${Lowercase<Head>}`}${KebabCase<Tail>}`
+  : S;
+
+// Controller events re-dispatched on the element as `pay2nature-<kebab-name>`
+const FORWARDED_EVENTS: ForwardedEventName[] = [
+  'ready',
+  'configLoaded',
+  'amountChange',
+  'selectionChange',
+  'contributionStart',
+  'contribution',
+  'contributionConfirmed',
+  'paymentStatus',
+  'toggle',
+  'error',
+  'log',
+];
+
+// Attributes that need a new widget instance when they change
+const REINITIALIZING_ATTRIBUTES = [
+  'widget-token',
+  'base-url',
+  'environment',
+  'sandbox-base-url',
+  'dir',
+  'payment-methods',
+  'payment-method',
+  'mode',
+  'presentation',
+  'success-url',
+  'cancel-url',
+  'projects',
+  'project-picker',
+  'debug',
+  'log-level',
+];
+
+function toEventName(event: ForwardedEventName): string {
+  return `pay2nature-${event.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)}`;
+}
+
+// Lets the module be imported where HTMLElement doesn't exist (e.g. on the server)
+const BaseElement = (typeof HTMLElement !== 'undefined'
+  ? HTMLElement
+  : class {}) as typeof HTMLElement;
+
+export class Pay2NatureElement extends BaseElement {
+  static get observedAttributes(): string[] {
+    return [...REINITIALIZING_ATTRIBUTES, 'theme', 'locale', 'order-total', 'enabled', 'project', 'frequency'];
+  }
+
+  private widget: Pay2NatureWidget | null = null;
+  private themeValue: ThemeOption | undefined;
+  private messagesValue: MessageCatalogs | undefined;
+  private providersValue: PaymentProvider[] | undefined;
+  private initialConfigValue: WidgetConfig | undefined;
+  private analyticsValue: AnalyticsAdapter | AnalyticsAdapter[] | undefined;
+  private loggerValue: Pay2NatureLogger | undefined;
+  private offlineValue: OfflineOptions | undefined;
+  private amountsValue: AmountOptions | undefined;
+  private isInitializeScheduled = false;
+
+  get widgetToken(): string {
+    return this.getAttribute('widget-token') || '';
+  }
+
+  set widgetToken(value: string) {
+    this.setAttribute('widget-token', value);
+  }
+
+  get baseUrl(): string {
+    return this.getAttribute('base-url') || '';
+  }
+
+  set baseUrl(value: string) {
+    this.setAttribute('base-url', value);
+  }
+
+  get locale(): string | undefined {
+    return this.getAttribute('locale') || undefined;
+  }
+
+  set locale(value: string | undefined) {
+    if (value) {
+      this.setAttribute('locale', value);
+    } else {
+      this.removeAttribute('locale');
+    }
+  }
+
+  /**
+   * A preset name is reflected to the `theme` attribute; a theme object is
+   * only kept as a property
+   */
+  get theme(): ThemeOption | undefined {
+    return this.themeValue ?? (this.getAttribute('theme') as ThemeOption | null) ?? undefined;
+  }
+
+  set theme(value: ThemeOption | undefined) {
+    if (typeof value === 'string') {
+      this.themeValue = undefined;
+      this.setAttribute('theme', value);
+      return;
+    }
+    this.themeValue = value;
+    this.widget?.setTheme(value || 'light');
+  }
+
+  get messages(): MessageCatalogs | undefined {
+    return this.messagesValue;
+  }
+
+  set messages(value: MessageCatalogs | undefined) {
+    this.messagesValue = value;
+    this.widget?.setLocale(this.locale || 'en', value);
+  }
+
+  get providers(): PaymentProvider[] | undefined {
+    return this.providersValue;
+  }
+
+  set providers(value: PaymentProvider[] | undefined) {
+    this.providersValue = value;
+    this.scheduleInitialize();
+  }
+
+  get analytics(): AnalyticsAdapter | AnalyticsAdapter[] | undefined {
+    return this.analyticsValue;
+  }
+
+  set analytics(value: AnalyticsAdapter | AnalyticsAdapter[] | undefined) {
+    this.analyticsValue = value;
+    this.widget?.setAnalytics(value);
+  }
+
+  get logger(): Pay2NatureLogger | undefined {
+    return this.loggerValue;
+  }
+
+  set logger(value: Pay2NatureLogger | undefined) {
+    this.loggerValue = value;
+    this.widget?.setLogger(value);
+  }
+
+  // Fixture and simulated payment outcome with environment="offline"
+  get offline(): OfflineOptions | undefined {
+    return this.offlineValue;
+  }
+
+  set offline(value: OfflineOptions | undefined) {
+    this.offlineValue = value;
+    this.scheduleInitialize();
+  }
+
+  /**
+   * Configuration fetched on the server; set it before the element is
+   * connected to skip the client-side fetch
+   */
+  get initialConfig(): WidgetConfig | undefined {
+    return this.initialConfigValue;
+  }
+
+  set initialConfig(value: WidgetConfig | undefined) {
+    this.initialConfigValue = value;
+  }
+
+  /**
+   * Whether the contribution is switched on. Reflected to the `enabled`
+   * attribute ("true" or "false").
+   */
+  get enabled(): boolean {
+    return this.widget
+      ? this.widget.getSelection().enabled
+      : this.getAttribute('enabled') !== 'false';
+  }
+
+  set enabled(value: boolean) {
+    this.setAttribute('enabled', String(value));
+  }
+
+  get orderTotal(): number | null {
+    const value = parseFloat(this.getAttribute('order-total') || '');
+    return isNaN(value) ? null : value;
+  }
+
+  set orderTotal(value: number | null) {
+    if (value === null || value === undefined) {
+      this.removeAttribute('order-total');
+    } else {
+      this.setAttribute('order-total', String(value));
+    }
+  }
+
+  get amounts(): AmountOptions | undefined {
+    return this.amountsValue;
+  }
+
+  set amounts(value: AmountOptions | undefined) {
+    this.amountsValue = value;
+    if (value) {
+      this.widget?.setAmountOptions(value);
+    }
+  }
+
+  // Types the `pay2nature-*` events on this element only
+  addEventListener<K extends keyof Pay2NatureElementEventMap>(
+    type: K,
+    listener: (this: Pay2NatureElement, event: Pay2NatureElementEventMap[K]) => unknown,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener<K extends keyof HTMLElementEventMap>(
+    type: K,
+    listener: (this: HTMLElement, event: HTMLElementEventMap[K]) => unknown,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions
+  ): void {
+    super.addEventListener(type, listener, options);
+  }
+
+  removeEventListener<K extends keyof Pay2NatureElementEventMap>(
+    type: K,
+    listener: (this: Pay2NatureElement, event: Pay2NatureElementEventMap[K]) => unknown,
+    options?: boolean | EventListenerOptions
+  ): void;
+  removeEventListener<K extends keyof HTMLElementEventMap>(
+    type: K,
+    listener: (this: HTMLElement, event: HTMLElementEventMap[K]) => unknown,
+    options?: boolean | EventListenerOptions
+  ): void;
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions
+  ): void;
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions
+  ): void {
+    super.removeEventListener(type, listener, options);
+  }
+
+  /**
+   * The underlying widget, once the element is connected and has both a
+   * widget token and a base URL
+   */
+  getWidget(): Pay2NatureWidget | null {
+    return this.widget;
+  }
+
+  connectedCallback(): void {
+    this.initialize();
+  }
+
+  disconnectedCallback(): void {
+    this.teardown();
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+    if (oldValue === newValue || !this.isConnected) return;
+
+    if (name === 'theme') {
+      if (this.widget && !this.themeValue) {
+        this.widget.setTheme((newValue as ThemeOption | null) || 'light');
+      }
+    } else if (name === 'locale') {
+      this.widget?.setLocale(newValue || 'en', this.messagesValue);
+    } else if (name === 'enabled') {
+      if (newValue !== null) {
+        this.widget?.setEnabled(newValue !== 'false');
+      }
+    } else if (name === 'order-total') {
+      this.widget?.setOrderTotal(this.orderTotal);
+    } else if (name === 'project') {
+      if (newValue) {
+        this.widget?.selectProject(newValue);
+      }
+    } else if (name === 'frequency') {
+      if (newValue) {
+        this.widget?.selectFrequency(newValue as ContributionFrequency);
+      }
+    } else if (REINITIALIZING_ATTRIBUTES.includes(name)) {
+      this.initialize();
+    }
+  }
+
+  // Properties set together (e.g. providers and offline) re-create the
+  // widget once, in a microtask
+  private scheduleInitialize(): void {
+    if (this.isInitializeScheduled) return;
+    this.isInitializeScheduled = true;
+    queueMicrotask(() => {
+      if (!this.isInitializeScheduled) return;
+      this.initialize();
+    });
+  }
+
+  private initialize(): void {
+    this.isInitializeScheduled = false;
+    this.teardown();
+
+    if (!this.isConnected || !this.widgetToken || !this.baseUrl) return;
+
+    const paymentMethods = this.getAttribute('payment-methods');
+    const projects = this.getAttribute('projects');
+
+    this.widget = new Pay2NatureWidget({
+      widgetToken: this.widgetToken,
+      baseUrl: this.baseUrl,
+      environment: (this.getAttribute('environment') as WidgetEnvironment | null) || undefined,
+      sandboxBaseUrl: this.getAttribute('sandbox-base-url') || undefined,
+      offline: this.offlineValue,
+      container: this,
+      mode: (this.getAttribute('mode') as WidgetMode | null) || undefined,
+      enabled: this.hasAttribute('enabled')
+        ? this.getAttribute('enabled') !== 'false'
+        : undefined,
+      theme: this.theme,
+      locale: this.locale,
+      messages: this.messagesValue,
+      dir: (this.getAttribute('dir') as TextDirection | null) || undefined,
+      paymentMethods: paymentMethods
+        ? paymentMethods.split(',').map((method) => method.trim()).filter(Boolean)
+        : undefined,
+      paymentMethod: this.getAttribute('payment-method') || undefined,
+      presentation: (this.getAttribute('presentation') as PaymentPresentation | null) || undefined,
+      projects: projects
+        ? projects.split(',').map((project) => project.trim()).filter(Boolean)
+        : undefined,
+      project: this.getAttribute('project') || undefined,
+      projectPicker: (this.getAttribute('project-picker') as ProjectPicker | null) || undefined,
+      frequency: (this.getAttribute('frequency') as ContributionFrequency | null) || undefined,
+      returnUrls: {
+        success: this.getAttribute('success-url') || undefined,
+        cancel: this.getAttribute('cancel-url') || undefined,
+      },
+      providers: this.providersValue,
+      analytics: this.analyticsValue,
+      debug: this.hasAttribute('debug') && this.getAttribute('debug') !== 'false',
+      logLevel: (this.getAttribute('log-level') as LogLevel | null) || undefined,
+      logger: this.loggerValue,
+      initialConfig: this.initialConfigValue,
+      amounts: this.orderTotal !== null
+        ? { ...this.amountsValue, orderTotal: this.orderTotal }
+        : this.amountsValue,
+    });
+
+    FORWARDED_EVENTS.forEach((event) => {
+      this.widget!.on(event, (detail) => {
+        this.dispatchEvent(
+          new CustomEvent(toEventName(event), {
+            detail,
+            bubbles: true,
+            composed: true,
+          })
+        );
+      });
+    });
+  }
+
+  private teardown(): void {
+    if (this.widget) {
+      this.widget.destroy();
+      this.widget = null;
+    }
+  }
+}
+
+/**
+ * Registers `<pay2nature-widget>`. Safe to call more than once and a no-op
+ * where custom elements aren't available.
+ */
+export function definePay2NatureElement(tagName: string = PAY2NATURE_ELEMENT_TAG): void {
+  if (typeof customElements === 'undefined' || customElements.get(tagName)) return;
+  customElements.define(tagName, tagName === PAY2NATURE_ELEMENT_TAG
+    ? Pay2NatureElement
+    : class extends Pay2NatureElement {});
+}
+
+export interface Pay2NatureElementAttributes {
+  'widget-token': string;
+  'base-url': string;
+  environment?: WidgetEnvironment;
+  'sandbox-base-url'?: string;
+  theme?: string;
+  locale?: string;
+  dir?: TextDirection;
+  'payment-methods'?: string;
+  'payment-method'?: string;
+  'order-total'?: number | string;
+  mode?: WidgetMode;
+  enabled?: 'true' | 'false' | boolean;
+  presentation?: PaymentPresentation;
+  'success-url'?: string;
+  'cancel-url'?: string;
+  projects?: string;
+  project?: string;
+  'project-picker'?: ProjectPicker;
+  frequency?: ContributionFrequency;
+  debug?: boolean | '' | 'true' | 'false';
+  'log-level'?: LogLevel;
+  id?: string;
+  class?: string;
+  className?: string;
+  style?: unknown;
+  ref?: unknown;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'pay2nature-widget': Pay2NatureElement;
+  }
+
+  namespace JSX {
+    interface IntrinsicElements {
+      'pay2nature-widget': Pay2NatureElementAttributes;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Custom Element Entry Point
+ * Import this file to register <pay2nature-widget>
+ */
+
+import { definePay2NatureElement } from './Pay2NatureElement';
+
+definePay2NatureElement();
+
+export {
+  Pay2NatureElement,
+  definePay2NatureElement,
+  PAY2NATURE_ELEMENT_TAG,
+} from './Pay2NatureElement';
+export type {
+  Pay2NatureElementAttributes,
+  Pay2NatureElementEventMap,
+} from './Pay2NatureElement';
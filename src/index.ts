@@ -7,14 +7,159 @@
 export { Pay2NatureWidget } from './core/Pay2NatureWidget';
 export type {
   Pay2NatureWidgetOptions,
+  ConfirmedContribution,
   ContributionData,
+  ContributionFrequency,
+  ContributionSelection,
+  PaymentPresentation,
+  PaymentStatusData,
+  ProjectPicker,
   WidgetConfig,
+  WidgetProject,
 } from './core/Pay2NatureWidget';
 
+// Headless controller
+export { Pay2NatureController } from './core/Pay2NatureController';
+export type {
+  Pay2NatureControllerOptions,
+  Pay2NatureState,
+  ContributionStatus,
+  ContributeOptions,
+  PaymentStepOptions,
+  PaymentMethodOption,
+  StateListener,
+  WidgetMode,
+  Pay2NatureDiagnostics,
+  ConfigSource,
+} from './core/Pay2NatureController';
+
+// Preset amounts
+export type { AmountOptions, AmountStrategy } from './core/amounts';
+
+// Analytics
+export {
+  googleTagManagerAdapter,
+  gtagAdapter,
+  segmentAdapter,
+} from './core/analytics';
+export type {
+  AnalyticsAdapter,
+  AnalyticsAbandonReason,
+  AnalyticsEventName,
+  AnalyticsProps,
+  GoogleTagManagerAdapterOptions,
+  TagManagerAdapterOptions,
+} from './core/analytics';
+
+// Logging
+export { consoleLogger } from './core/logger';
+export type {
+  Logger,
+  LogLevel,
+  LogEntry,
+  Pay2NatureLogger,
+  ApiRequestLog,
+} from './core/logger';
+
+// Environments
+export { getSandboxBaseUrl } from './core/environment';
+export type { WidgetEnvironment } from './core/environment';
+export { OFFLINE_FIXTURES } from './core/offline';
+export type {
+  OfflineOptions,
+  OfflineFixtureName,
+  OfflinePaymentOutcome,
+} from './core/offline';
+
+// Configuration
+export { fetchWidgetConfig, clearConfigCache } from './core/config';
+export type { ConfigCacheOptions, ConfigCacheStorage } from './core/config';
+
+// Errors
+export {
+  Pay2NatureError,
+  ConfigNotFoundError,
+  NoActiveProjectsError,
+  NetworkError,
+  TimeoutError,
+  ValidationError,
+  PaymentRejectedError,
+  PopupBlockedError,
+  ProviderUnavailableError,
+  HttpError,
+} from './core/errors';
+export type { Pay2NatureErrorCode, Pay2NatureErrorOptions } from './core/errors';
+
+// HTTP
+export { HttpClient } from './core/http';
+export type {
+  HttpClientOptions,
+  HttpRequestOptions,
+  FetchFunction,
+} from './core/http';
+
+// Payment providers
+export {
+  PaymentProviderRegistry,
+  paymentProviders,
+  registerPaymentProvider,
+  stripeProvider,
+  mobileMoneyProvider,
+  MOBILE_MONEY_NETWORKS,
+} from './core/providers';
+export type {
+  PaymentProvider,
+  PaymentProviderContext,
+  MobileMoneyNetwork,
+  PaymentStepContext,
+  PaymentRequest,
+  PaymentInitiation,
+  PaymentConfirmation,
+  PaymentStatusSubscription,
+} from './core/providers';
+export type { PaymentMethod, MobileMoneyDetails } from './core/types';
+export type {
+  Pay2NatureEventMap,
+  Pay2NatureEventName,
+  Pay2NatureEventHandler,
+  AmountChangeEvent,
+  ContributionStartEvent,
+} from './core/events';
+
+export type {
+  ThemePreset,
+  ThemeTokens,
+  Pay2NatureTheme,
+  ThemeOption,
+} from './core/theme';
+export { BUNDLED_CATALOGS } from './core/i18n';
+export type { ReturnUrlOptions, PaymentReturnUrls } from './core/paymentReturn';
+export type {
+  PaymentStatus,
+  PaymentStatusOptions,
+  PaymentStatusTransport,
+} from './core/paymentStatus';
+export type {
+  WidgetMessages,
+  MessageCatalogs,
+  TextDirection,
+} from './core/i18n';
+
 // React component
 export { Pay2NatureWidgetComponent } from './react/Pay2NatureWidget';
 export type { Pay2NatureWidgetProps } from './react/Pay2NatureWidget';
 
+// Custom element; import '@pay2nature/widget-sdk/element' to register it
+export {
+  Pay2NatureElement,
+  definePay2NatureElement,
+  PAY2NATURE_ELEMENT_TAG,
+} from './element/Pay2NatureElement';
+export type {
+  Pay2NatureElementAttributes,
+  Pay2NatureElementEventMap,
+} from './element/Pay2NatureElement';
+
 // jQuery plugin is available via separate import
 // Import '@pay2nature/widget-sdk/jquery' to register the plugin
 
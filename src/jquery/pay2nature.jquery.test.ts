@@ -0,0 +1,75 @@
+import jQuery from 'jquery';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Pay2NatureWidgetOptions } from '../core/Pay2NatureWidget';
+import { createMockServer, MockServer, queryWidget, waitForWidget } from '../testing';
+
+declare global {
+  interface Window {
+    jQuery: JQueryStatic;
+  }
+}
+
+let server: MockServer;
+let $element: JQuery;
+
+beforeAll(async () => {
+  // The plugin registers itself on window.jQuery when imported
+  window.jQuery = jQuery;
+  await import('./pay2nature.jquery');
+});
+
+beforeEach(() => {
+  server = createMockServer();
+  $element = jQuery('<div></div>').appendTo(document.body);
+});
+
+afterEach(() => {
+  $element.pay2nature('destroy').remove();
+});
+
+function init(options: Partial<Pay2NatureWidgetOptions> = {}): JQuery {
+  return $element.pay2nature({
+    widgetToken: 'test-token',
+    baseUrl: 'https://api.pay2nature.test',
+    configCache: false,
+    returnUrls: false,
+    http: { fetch: server.fetch },
+    ...options,
+  });
+}
+
+describe('$.fn.pay2nature', () => {
+  it('creates a widget on each element and chains', async () => {
+    expect(init()).toBe($element);
+
+    await waitForWidget($element[0], '.p2n-contribute');
+    expect($element.pay2nature('getSelection')).toMatchObject({ amount: 2 });
+  });
+
+  it('calls methods on the existing widget', async () => {
+    const onSelectionChange = vi.fn();
+    init({ mode: 'opt-in' });
+    await waitForWidget($element[0], '.p2n-toggle-input');
+
+    $element.pay2nature('on', 'selectionChange', onSelectionChange);
+    $element.pay2nature('setEnabled', true);
+
+    expect($element.pay2nature('getSelection')).toMatchObject({ enabled: true, amount: 2 });
+    expect(queryWidget<HTMLInputElement>($element[0], '.p2n-toggle-input')?.checked).toBe(true);
+    expect(onSelectionChange).toHaveBeenCalledWith(expect.objectContaining({ enabled: true }));
+  });
+
+  it('returns null from getSelection before initialization', () => {
+    expect($element.pay2nature('getSelection')).toBeNull();
+  });
+
+  it('removes the widget on destroy', async () => {
+    init();
+    await waitForWidget($element[0], '.p2n-contribute');
+
+    $element.pay2nature('destroy');
+
+    expect($element.data('plugin_pay2nature')).toBeUndefined();
+    expect($element.pay2nature('getSelection')).toBeNull();
+  });
+});
@@ -2,18 +2,94 @@
  * jQuery Plugin Wrapper for Pay2Nature Widget
  */
 
-import { Pay2NatureWidget, Pay2NatureWidgetOptions, ContributionData } from '../core/Pay2NatureWidget';
+import {
+  Pay2NatureWidget,
+  Pay2NatureWidgetOptions,
+  ContributionData,
+  ContributionSelection,
+} from '../core/Pay2NatureWidget';
+import type { ThemeOption } from '../core/theme';
+import type { MessageCatalogs } from '../core/i18n';
+import type { AmountOptions } from '../core/amounts';
+import type { Pay2NatureEventName, Pay2NatureEventHandler } from '../core/events';
+import type { ContributionFrequency } from '../core/types';
+// Only jQuery's types; the plugin uses the page's window.jQuery
+import type {} from 'jquery';
 
 declare global {
   interface JQuery {
     pay2nature(options: Pay2NatureWidgetOptions): JQuery;
     pay2nature(method: 'destroy'): JQuery;
+    pay2nature(method: 'setTheme', theme: ThemeOption): JQuery;
+    pay2nature(method: 'setLocale', locale: string, messages?: MessageCatalogs): JQuery;
+    pay2nature(method: 'refreshConfig'): JQuery;
+    pay2nature(method: 'setAmountOptions', options: AmountOptions): JQuery;
+    pay2nature(method: 'setOrderTotal', orderTotal: number | null): JQuery;
+    pay2nature(method: 'setEnabled', isEnabled: boolean): JQuery;
+    pay2nature(method: 'closeCheckout'): JQuery;
+    pay2nature(method: 'selectProject', projectId: string): JQuery;
+    pay2nature(method: 'selectFrequency', frequency: ContributionFrequency): JQuery;
+    pay2nature(method: 'getSelection'): ContributionSelection | null;
+    pay2nature<K extends Pay2NatureEventName>(method: 'on' | 'off', event: K, handler: Pay2NatureEventHandler<K>): JQuery;
   }
 }
 
-(function ($: any) {
-  'use strict';
+// Arguments of each method, after the method name
+interface PluginMethodArgs {
+  destroy: [];
+  setTheme: [theme: ThemeOption];
+  setLocale: [locale: string, messages?: MessageCatalogs];
+  refreshConfig: [];
+  setAmountOptions: [options: AmountOptions];
+  setOrderTotal: [orderTotal: number | null];
+  setEnabled: [isEnabled: boolean];
+  closeCheckout: [];
+  selectProject: [projectId: string];
+  selectFrequency: [frequency: ContributionFrequency];
+  on: [event: Pay2NatureEventName, handler: Pay2NatureEventHandler<Pay2NatureEventName>];
+  off: [event: Pay2NatureEventName, handler: Pay2NatureEventHandler<Pay2NatureEventName>];
+}
+
+type PluginMethod = keyof PluginMethodArgs;
+
+const METHODS: {
+  [M in PluginMethod]: (instance: Pay2NatureWidget, ...args: PluginMethodArgs[M]) => void;
+} = {
+  destroy: (instance) => instance.destroy(),
+  setTheme: (instance, theme) => instance.setTheme(theme),
+  setLocale: (instance, locale, messages) => instance.setLocale(locale, messages),
+  refreshConfig: (instance) => {
+    const logger = instance.getController().getLogger();
+    instance.refreshConfig().catch((error) => {
+      logger.error('Failed to refresh configuration', error);
+    });
+  },
+  setAmountOptions: (instance, options) => instance.setAmountOptions(options),
+  setOrderTotal: (instance, orderTotal) => instance.setOrderTotal(orderTotal),
+  setEnabled: (instance, isEnabled) => instance.setEnabled(Boolean(isEnabled)),
+  closeCheckout: (instance) => instance.closeCheckout(),
+  selectProject: (instance, projectId) => instance.selectProject(projectId),
+  selectFrequency: (instance, frequency) => instance.selectFrequency(frequency),
+  on: (instance, event, handler) => {
+    instance.on(event, handler);
+  },
+  off: (instance, event, handler) => instance.off(event, handler),
+};
+
+function isPluginMethod(method: string): method is PluginMethod {
+  return Object.prototype.hasOwnProperty.call(METHODS, method);
+}
+
+function callMethod<M extends PluginMethod>(
+  instance: Pay2NatureWidget,
+  method: M,
+  args: PluginMethodArgs[M]
+): void {
+  const call: (instance: Pay2NatureWidget, ...args: PluginMethodArgs[M]) => void = METHODS[method];
+  call(instance, ...args);
+}
 
+function registerPlugin($: JQueryStatic): void {
   const PLUGIN_NAME = 'pay2nature';
   const DATA_KEY = `plugin_${PLUGIN_NAME}`;
 
@@ -21,29 +97,32 @@ declare global {
     instance: Pay2NatureWidget;
   }
 
-  $.fn[PLUGIN_NAME] = function (
-    optionsOrMethod: Pay2NatureWidgetOptions | string,
-    ...args: any[]
-  ): JQuery {
+  function plugin<M extends PluginMethod>(
+    this: JQuery,
+    optionsOrMethod: Pay2NatureWidgetOptions | M | 'getSelection',
+    ...args: PluginMethodArgs[M]
+  ): JQuery | ContributionSelection | null {
+    // Getters return the value for the first element instead of chaining
+    if (optionsOrMethod === 'getSelection') {
+      const data = this.first().data(DATA_KEY) as Pay2NaturePluginData | undefined;
+      return data && data.instance ? data.instance.getSelection() : null;
+    }
+
     return this.each(function (this: HTMLElement) {
       const $element = $(this);
-      let data = $element.data(DATA_KEY) as Pay2NaturePluginData | undefined;
+      const data = $element.data(DATA_KEY) as Pay2NaturePluginData | undefined;
 
-      // Handle method calls
+      // Handle method calls; unknown methods are ignored
       if (typeof optionsOrMethod === 'string') {
-        const method = optionsOrMethod;
-        if (method === 'destroy') {
-          if (data && data.instance) {
-            data.instance.destroy();
+        if (data && data.instance && isPluginMethod(optionsOrMethod)) {
+          callMethod(data.instance, optionsOrMethod, args);
+          if (optionsOrMethod === 'destroy') {
             $element.removeData(DATA_KEY);
           }
         }
         return;
       }
 
-      // Handle initialization
-      const options = optionsOrMethod as Pay2NatureWidgetOptions;
-
       // Destroy existing instance if any
       if (data && data.instance) {
         data.instance.destroy();
@@ -51,13 +130,22 @@ declare global {
 
       // Create new instance
       const instance = new Pay2NatureWidget({
-        ...options,
+        ...optionsOrMethod,
         container: this,
       });
 
       // Store instance
       $element.data(DATA_KEY, { instance });
     });
-  };
-})(typeof window !== 'undefined' && (window as any).jQuery);
+  }
 
+  $.fn.extend({ [PLUGIN_NAME]: plugin });
+}
+
+// Registers on the page's jQuery, if there is one
+const jQuery = typeof window !== 'undefined'
+  ? (window as Window & { jQuery?: JQueryStatic }).jQuery
+  : undefined;
+if (jQuery) {
+  registerPlugin(jQuery);
+}
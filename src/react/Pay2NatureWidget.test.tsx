@@ -0,0 +1,122 @@
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Pay2NatureWidgetComponent, Pay2NatureWidgetProps } from './Pay2NatureWidget';
+import { clearConfigCache } from '../core/config';
+import {
+  clickWidget,
+  createMockServer,
+  getWidgetRoot,
+  MockServer,
+  queryWidget,
+  waitFor,
+  waitForWidget,
+} from '../testing';
+
+declare global {
+  var IS_REACT_ACT_ENVIRONMENT: boolean | undefined;
+}
+
+let server: MockServer;
+let restoreFetch: () => void;
+let host: HTMLElement;
+let root: Root;
+
+const CONTAINER = '#pay2nature-widget';
+
+function render(props: Partial<Pay2NatureWidgetProps> = {}): void {
+  act(() => {
+    root.render(
+      <Pay2NatureWidgetComponent
+        widgetToken="test-token"
+        baseUrl="https://api.pay2nature.test"
+        returnUrls={false}
+        {...props}
+      />
+    );
+  });
+}
+
+beforeEach(() => {
+  globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+  clearConfigCache();
+  server = createMockServer();
+  restoreFetch = server.install();
+  host = document.createElement('div');
+  document.body.appendChild(host);
+  root = createRoot(host);
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  host.remove();
+  restoreFetch();
+});
+
+describe('<Pay2NatureWidgetComponent>', () => {
+  it('renders the widget into its container', async () => {
+    render({ className: 'donation' });
+
+    await waitForWidget(CONTAINER, '.p2n-contribute');
+    expect(host.querySelector('.donation')?.id).toBe('pay2nature-widget');
+  });
+
+  it('calls the latest callbacks without re-creating the widget', async () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    render({ onSelectionChange: first });
+    await waitForWidget(CONTAINER, '.p2n-amount');
+
+    render({ onSelectionChange: second });
+    clickWidget(CONTAINER, ".p2n-amount[data-amount='5.5']");
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second.mock.calls[0][0]).toMatchObject({ amount: 5.5 });
+    expect(server.getRequests('config')).toHaveLength(1);
+  });
+
+  it('follows the controlled enabled prop', async () => {
+    const onToggle = vi.fn();
+    render({ mode: 'opt-in', enabled: false, onToggle });
+    const toggle = await waitForWidget<HTMLInputElement>(CONTAINER, '.p2n-toggle-input');
+    expect(toggle.checked).toBe(false);
+
+    render({ mode: 'opt-in', enabled: true, onToggle });
+
+    expect(queryWidget<HTMLInputElement>(CONTAINER, '.p2n-toggle-input')?.checked).toBe(true);
+  });
+
+  it('forwards new analytics adapters without re-creating the widget', async () => {
+    const track = vi.fn();
+    render();
+    await waitForWidget(CONTAINER, '.p2n-amount');
+
+    render({ analytics: { track } });
+    clickWidget(CONTAINER, ".p2n-amount[data-amount='5.5']");
+
+    expect(track).toHaveBeenCalledWith('amount_selected', expect.objectContaining({ amount: 5.5 }));
+    expect(server.getRequests('config')).toHaveLength(1);
+  });
+
+  it('re-creates the widget when the token changes', async () => {
+    render();
+    await waitForWidget(CONTAINER, '.p2n-contribute');
+
+    render({ widgetToken: 'other-token' });
+
+    await waitFor(() => server.getRequests('config').length === 2);
+    expect(server.getRequests('config')[1].widgetToken).toBe('other-token');
+    await waitForWidget(CONTAINER, '.p2n-contribute');
+  });
+
+  it('destroys the widget on unmount', async () => {
+    render();
+    await waitForWidget(CONTAINER, '.p2n-contribute');
+    const container = host.querySelector(CONTAINER)!;
+
+    act(() => root.unmount());
+    root = createRoot(host);
+
+    expect(getWidgetRoot(container)?.childNodes).toHaveLength(0);
+  });
+});
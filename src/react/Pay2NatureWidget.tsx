@@ -3,15 +3,63 @@
  */
 
 import React, { useEffect, useRef } from 'react';
-import { Pay2NatureWidget, Pay2NatureWidgetOptions, ContributionData } from '../core/Pay2NatureWidget';
+import {
+  Pay2NatureWidget,
+  Pay2NatureWidgetOptions,
+  ProjectPicker,
+  ConfirmedContribution,
+  ContributionData,
+  ContributionSelection,
+  PaymentStatusData,
+} from '../core/Pay2NatureWidget';
+import type { WidgetMode } from '../core/Pay2NatureController';
+import type { ThemeOption } from '../core/theme';
+import type { MessageCatalogs, TextDirection } from '../core/i18n';
+import type { PaymentStatusOptions } from '../core/paymentStatus';
+import type { ReturnUrlOptions } from '../core/paymentReturn';
+import type { AnalyticsAdapter } from '../core/analytics';
+import type { LogLevel, Pay2NatureLogger } from '../core/logger';
+import type { WidgetEnvironment } from '../core/environment';
+import type { OfflineOptions } from '../core/offline';
+import type { ContributionFrequency, PaymentPresentation, WidgetConfig } from '../core/types';
+import type { AmountOptions } from '../core/amounts';
+import type { Pay2NatureError } from '../core/errors';
 
 export interface Pay2NatureWidgetProps {
   widgetToken: string;
   baseUrl: string;
+  environment?: WidgetEnvironment;
+  sandboxBaseUrl?: string;
+  offline?: OfflineOptions; // Read when the widget is created
   containerId?: string;
+  mode?: WidgetMode;
+  enabled?: boolean;
+  presentation?: PaymentPresentation;
+  projects?: string[];
+  project?: string;
+  projectPicker?: ProjectPicker;
+  frequency?: ContributionFrequency;
+  theme?: ThemeOption;
+  locale?: string;
+  messages?: MessageCatalogs;
+  dir?: TextDirection;
+  paymentStatus?: PaymentStatusOptions; // Read when the widget is created
+  initialConfig?: WidgetConfig; // Read when the widget is created
+  returnUrls?: ReturnUrlOptions | false; // Read when the widget is created
+  analytics?: AnalyticsAdapter | AnalyticsAdapter[];
+  debug?: boolean;
+  logLevel?: LogLevel;
+  logger?: Pay2NatureLogger;
+  amounts?: AmountOptions;
+  orderTotal?: number | null;
   onContribution?: (data: ContributionData) => void;
+  onContributionConfirmed?: (data: ConfirmedContribution) => void;
+  onPaymentPending?: (data: PaymentStatusData) => void;
+  onPaymentSuccess?: (data: PaymentStatusData) => void;
+  onPaymentFailed?: (data: PaymentStatusData) => void;
   onToggle?: (isEnabled: boolean) => void;
-  onError?: (error: Error) => void;
+  onSelectionChange?: (selection: ContributionSelection) => void;
+  onError?: (error: Pay2NatureError) => void;
   className?: string;
   style?: React.CSSProperties;
 }
@@ -19,21 +67,77 @@ export interface Pay2NatureWidgetProps {
 export const Pay2NatureWidgetComponent: React.FC<Pay2NatureWidgetProps> = ({
   widgetToken,
   baseUrl,
+  environment,
+  sandboxBaseUrl,
+  offline,
   containerId = 'pay2nature-widget',
+  mode,
+  enabled,
+  presentation,
+  projects,
+  project,
+  projectPicker,
+  frequency,
+  theme,
+  locale,
+  messages,
+  dir,
+  paymentStatus,
+  initialConfig,
+  returnUrls,
+  analytics,
+  debug,
+  logLevel,
+  logger,
+  amounts,
+  orderTotal,
   onContribution,
+  onContributionConfirmed,
+  onPaymentPending,
+  onPaymentSuccess,
+  onPaymentFailed,
   onToggle,
+  onSelectionChange,
   onError,
   className,
   style,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const widgetInstanceRef = useRef<Pay2NatureWidget | null>(null);
-  const callbacksRef = useRef({ onContribution, onToggle, onError });
+  const callbacksRef = useRef({
+    onContribution,
+    onContributionConfirmed,
+    onPaymentPending,
+    onPaymentSuccess,
+    onPaymentFailed,
+    onToggle,
+    onSelectionChange,
+    onError,
+  });
+  const themeRef = useRef(theme);
+  const localeRef = useRef({ locale, messages });
+  const amountsRef = useRef(amounts);
+  const orderTotalRef = useRef(orderTotal);
+  const enabledRef = useRef(enabled);
+  const projectsRef = useRef(projects);
+  const projectRef = useRef(project);
+  const frequencyRef = useRef(frequency);
+  const analyticsRef = useRef(analytics);
+  const loggerRef = useRef(logger);
 
   // Update callbacks ref when they change (without causing re-initialization)
   useEffect(() => {
-    callbacksRef.current = { onContribution, onToggle, onError };
-  }, [onContribution, onToggle, onError]);
+    callbacksRef.current = {
+      onContribution,
+      onContributionConfirmed,
+      onPaymentPending,
+      onPaymentSuccess,
+      onPaymentFailed,
+      onToggle,
+      onSelectionChange,
+      onError,
+    };
+  }, [onContribution, onContributionConfirmed, onPaymentPending, onPaymentSuccess, onPaymentFailed, onToggle, onSelectionChange, onError]);
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -54,9 +158,39 @@ export const Pay2NatureWidgetComponent: React.FC<Pay2NatureWidgetProps> = ({
       const options: Pay2NatureWidgetOptions = {
         widgetToken,
         baseUrl,
+        environment,
+        sandboxBaseUrl,
+        offline,
         container: containerRef.current,
+        mode,
+        enabled: enabledRef.current,
+        presentation,
+        projects: projectsRef.current,
+        project: projectRef.current,
+        projectPicker,
+        frequency: frequencyRef.current,
+        theme: themeRef.current,
+        locale: localeRef.current.locale,
+        messages: localeRef.current.messages,
+        dir,
+        paymentStatus,
+        initialConfig,
+        returnUrls,
+        analytics: analyticsRef.current,
+        debug,
+        logLevel,
+        logger: loggerRef.current,
+        amounts:
+          orderTotalRef.current != null
+            ? { ...amountsRef.current, orderTotal: orderTotalRef.current }
+            : amountsRef.current,
         onContribution: (data) => callbacksRef.current.onContribution?.(data),
+        onContributionConfirmed: (data) => callbacksRef.current.onContributionConfirmed?.(data),
+        onPaymentPending: (data) => callbacksRef.current.onPaymentPending?.(data),
+        onPaymentSuccess: (data) => callbacksRef.current.onPaymentSuccess?.(data),
+        onPaymentFailed: (data) => callbacksRef.current.onPaymentFailed?.(data),
         onToggle: (isEnabled) => callbacksRef.current.onToggle?.(isEnabled),
+        onSelectionChange: (selection) => callbacksRef.current.onSelectionChange?.(selection),
         onError: (error) => callbacksRef.current.onError?.(error),
       };
 
@@ -73,7 +207,78 @@ export const Pay2NatureWidgetComponent: React.FC<Pay2NatureWidgetProps> = ({
         widgetInstanceRef.current = null;
       }
     };
-  }, [widgetToken, baseUrl]); // Only re-initialize when token or baseUrl changes
+  }, [widgetToken, baseUrl, environment, sandboxBaseUrl, dir, mode, presentation, projectPicker, debug, logLevel]); // Only re-initialize when token, baseUrl, environment, sandboxBaseUrl, dir, mode, presentation, projectPicker, debug or logLevel changes
+
+  // Apply theme changes at runtime instead of re-creating the widget
+  useEffect(() => {
+    themeRef.current = theme;
+    if (widgetInstanceRef.current && theme) {
+      widgetInstanceRef.current.setTheme(theme);
+    }
+  }, [theme]);
+
+  // Apply locale changes at runtime instead of re-creating the widget
+  useEffect(() => {
+    localeRef.current = { locale, messages };
+    if (widgetInstanceRef.current && locale) {
+      widgetInstanceRef.current.setLocale(locale, messages);
+    }
+  }, [locale, messages]);
+
+  // Apply amount options (e.g. a new order total) without re-creating the widget
+  useEffect(() => {
+    if (amountsRef.current === amounts) return;
+    amountsRef.current = amounts;
+    if (widgetInstanceRef.current && amounts) {
+      widgetInstanceRef.current.setAmountOptions(amounts);
+    }
+  }, [amounts]);
+
+  // Controlled opt-in switch
+  useEffect(() => {
+    enabledRef.current = enabled;
+    if (widgetInstanceRef.current && enabled !== undefined) {
+      widgetInstanceRef.current.setEnabled(enabled);
+    }
+  }, [enabled]);
+
+  // Controlled project selection
+  useEffect(() => {
+    if (projectRef.current === project) return;
+    projectRef.current = project;
+    if (widgetInstanceRef.current && project) {
+      widgetInstanceRef.current.selectProject(project);
+    }
+  }, [project]);
+
+  // Controlled frequency selection
+  useEffect(() => {
+    if (frequencyRef.current === frequency) return;
+    frequencyRef.current = frequency;
+    if (widgetInstanceRef.current && frequency) {
+      widgetInstanceRef.current.selectFrequency(frequency);
+    }
+  }, [frequency]);
+
+  // Swap analytics adapters and the logger without re-creating the widget
+  useEffect(() => {
+    if (analyticsRef.current === analytics) return;
+    analyticsRef.current = analytics;
+    widgetInstanceRef.current?.setAnalytics(analytics);
+  }, [analytics]);
+
+  useEffect(() => {
+    if (loggerRef.current === logger) return;
+    loggerRef.current = logger;
+    widgetInstanceRef.current?.setLogger(logger);
+  }, [logger]);
+
+  // Follow the cart total without re-creating the widget
+  useEffect(() => {
+    if (orderTotalRef.current === orderTotal) return;
+    orderTotalRef.current = orderTotal;
+    widgetInstanceRef.current?.setOrderTotal(orderTotal ?? null);
+  }, [orderTotal]);
 
   return (
     <div
@@ -0,0 +1,140 @@
+/**
+ * Shadow DOM helpers for tests
+ * The widget renders into a closed shadow root; these helpers find it
+ * through the SDK's registry and query, click and type into it
+ */
+
+import { getAttachedShadowRoot } from '../core/shadowRoots';
+
+export type WidgetContainer = Element | string;
+
+export interface WaitForOptions {
+  // Milliseconds before giving up (default: 1000)
+  timeout?: number;
+  // Milliseconds between checks (default: 10)
+  interval?: number;
+}
+
+function resolveContainer(container: WidgetContainer): Element {
+  const element =
+    typeof container === 'string' ? document.querySelector(container) : container;
+  if (!element) {
+    throw new Error(`Pay2Nature testing: no element matches "${String(container)}"`);
+  }
+  return element;
+}
+
+/**
+ * The shadow root a widget rendered into, or null when no widget has
+ * rendered into the container
+ */
+export function getWidgetRoot(container: WidgetContainer): ShadowRoot | null {
+  return getAttachedShadowRoot(resolveContainer(container));
+}
+
+function requireWidgetRoot(container: WidgetContainer): ShadowRoot {
+  const root = getWidgetRoot(container);
+  if (!root) {
+    throw new Error(`Pay2Nature testing: no widget rendered into "${String(container)}"`);
+  }
+  return root;
+}
+
+export function queryWidget<E extends Element = HTMLElement>(
+  container: WidgetContainer,
+  selector: string
+): E | null {
+  return requireWidgetRoot(container).querySelector<E>(selector);
+}
+
+export function queryAllWidget<E extends Element = HTMLElement>(
+  container: WidgetContainer,
+  selector: string
+): E[] {
+  return Array.from(requireWidgetRoot(container).querySelectorAll<E>(selector));
+}
+
+/**
+ * The widget's visible text with whitespace collapsed. Hidden sections
+ * (e.g. the amount selection while a payment step is open) are left out.
+ */
+export function getWidgetText(container: WidgetContainer): string {
+  const collect = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return node.textContent || '';
+    if (node instanceof Element && (node.tagName === 'STYLE' || node.hasAttribute('hidden'))) {
+      return '';
+    }
+    return Array.from(node.childNodes).map(collect).join(' ');
+  };
+  return collect(requireWidgetRoot(container)).replace(/\s+/g, ' ').trim();
+}
+
+function requireElement<E extends Element>(container: WidgetContainer, selector: string): E {
+  const element = queryWidget<E>(container, selector);
+  if (!element) {
+    throw new Error(`Pay2Nature testing: no widget element matches "${selector}"`);
+  }
+  return element;
+}
+
+export function clickWidget(container: WidgetContainer, selector: string): void {
+  requireElement<HTMLElement>(container, selector).click();
+}
+
+/**
+ * Sets an input's or select's value and dispatches `input` and `change`,
+ * as typing into it would
+ */
+export function inputWidget(container: WidgetContainer, selector: string, value: string): void {
+  const field = requireElement<HTMLInputElement | HTMLSelectElement>(container, selector);
+  field.value = value;
+  field.dispatchEvent(new Event('input', { bubbles: true, composed: true }));
+  field.dispatchEvent(new Event('change', { bubbles: true, composed: true }));
+}
+
+/**
+ * Resolves with the callback's result once it is truthy; rejects after
+ * the timeout with the last error the callback threw
+ */
+export function waitFor<T>(
+  callback: () => T | null | undefined | false,
+  options: WaitForOptions = {}
+): Promise<T> {
+  const timeout = options.timeout ?? 1000;
+  const interval = options.interval ?? 10;
+  const deadline = Date.now() + timeout;
+
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      let lastError: unknown;
+      try {
+        const result = callback();
+        if (result) {
+          resolve(result);
+          return;
+        }
+      } catch (error) {
+        lastError = error;
+      }
+
+      if (Date.now() >= deadline) {
+        reject(lastError || new Error(`Pay2Nature testing: timed out after ${timeout}ms`));
+        return;
+      }
+      setTimeout(check, interval);
+    };
+    check();
+  });
+}
+
+/**
+ * Resolves with the first widget element matching the selector once it
+ * has rendered
+ */
+export function waitForWidget<E extends Element = HTMLElement>(
+  container: WidgetContainer,
+  selector: string,
+  options?: WaitForOptions
+): Promise<E> {
+  return waitFor(() => getWidgetRoot(container)?.querySelector<E>(selector), options);
+}
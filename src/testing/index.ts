@@ -0,0 +1,29 @@
+/**
+ * Testing Utilities Entry Point
+ * import { createMockServer, queryWidget } from '@pay2nature/widget-sdk/testing'
+ */
+
+export {
+  createMockServer,
+  MOCK_WIDGET_CONFIG,
+  MOCK_PAYMENT_URL,
+} from './mockServer';
+export type {
+  MockServer,
+  MockServerOptions,
+  MockScenario,
+  MockRoute,
+  MockRequest,
+} from './mockServer';
+
+export {
+  getWidgetRoot,
+  queryWidget,
+  queryAllWidget,
+  getWidgetText,
+  clickWidget,
+  inputWidget,
+  waitFor,
+  waitForWidget,
+} from './dom';
+export type { WidgetContainer, WaitForOptions } from './dom';
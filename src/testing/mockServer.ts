@@ -0,0 +1,70 @@
+/**
+ * In-process mock of the Pay2Nature widget API
+ * A fetch stub that answers the configuration, Stripe and mobile money
+ * routes with scripted scenarios, so integrations can be tested without
+ * the real endpoints. Built on the offline API the "offline" environment uses.
+ */
+
+import {
+  createOfflineApi,
+  DEFAULT_OFFLINE_CONFIG,
+  OFFLINE_PAYMENT_URL,
+} from '../core/offline';
+import type {
+  OfflineApi,
+  OfflineApiOptions,
+  OfflineRequest,
+  OfflineRoute,
+  OfflineScenario,
+} from '../core/offline';
+
+export type MockScenario = OfflineScenario;
+
+export type MockRoute = OfflineRoute;
+
+export type MockRequest = OfflineRequest;
+
+export type MockServerOptions = OfflineApiOptions;
+
+export interface MockServer extends OfflineApi {
+  // Pass as `http: { fetch: server.fetch }`, or call install()
+  fetch: OfflineApi['fetch'];
+  // Requests received on a route
+  getRequests(route: MockRoute): MockRequest[];
+  // Replaces the global fetch; returns a function that restores it
+  install(): () => void;
+}
+
+export const MOCK_WIDGET_CONFIG = DEFAULT_OFFLINE_CONFIG;
+
+export const MOCK_PAYMENT_URL = OFFLINE_PAYMENT_URL;
+
+/**
+ * Creates a mock of the widget API. Routes are matched on their path, so
+ * any `baseUrl` works.
+ */
+export function createMockServer(options: MockServerOptions = {}): MockServer {
+  const api = createOfflineApi(options);
+
+  const server: MockServer = {
+    ...api,
+
+    getRequests(route) {
+      return api.requests.filter((request) => request.route === route);
+    },
+
+    install() {
+      const previousFetch = globalThis.fetch;
+      globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) =>
+        api.fetch(
+          typeof input === 'string' || input instanceof URL ? String(input) : input.url,
+          init
+        )) as typeof fetch;
+      return () => {
+        globalThis.fetch = previousFetch;
+      };
+    },
+  };
+
+  return server;
+}